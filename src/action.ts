@@ -0,0 +1,97 @@
+/**
+ * Actions implied by each action, e.g. `{ manage: ["write"], write: ["read"] }`.
+ * Implication is transitive, so here `manage` also implies `read`.
+ */
+export type ActionHierarchy = Record<string, string[]>;
+
+/**
+ * Transitive closures of an action hierarchy in both directions.
+ */
+export interface ActionClosures {
+  /** Every action each action implies, excluding itself. */
+  implies: Map<string, Set<string>>;
+  /** Every action that implies each action, excluding itself. */
+  impliedBy: Map<string, Set<string>>;
+}
+
+/**
+ * Decides which rule actions apply to a requested action.
+ */
+export interface ActionMatcher {
+  /** The requested action. */
+  action: string;
+  /** Whether a rule action, as written (`read`, `read,write`, `billing:*` or `*`), applies. */
+  covers(ruleAction: string): boolean;
+  /**
+   * How specifically a rule action names the requested action: 3 when it names it, 2 when it names an
+   * action related through the hierarchy, 1 for a namespace glob, 0 for `*` and -1 when it does not apply.
+   */
+  rank(ruleAction: string): number;
+}
+
+/**
+ * Whether an action is a namespace glob such as `billing:*`.
+ */
+export function isActionNamespace(action: string): boolean {
+  return action.length > 2 && action.endsWith(":*");
+}
+
+/**
+ * Computes the transitive closures of an action hierarchy. Cycles are allowed and make the actions
+ * on them equivalent.
+ */
+export function closeHierarchy(hierarchy: ActionHierarchy): ActionClosures {
+  const implies = new Map<string, Set<string>>();
+  const impliedBy = new Map<string, Set<string>>();
+  for (const action of Object.keys(hierarchy)) {
+    const reached = new Set<string>();
+    const pending = [...hierarchy[action]];
+    while (pending.length > 0) {
+      const next = pending.pop()!;
+      if (reached.has(next)) continue;
+      reached.add(next);
+      if (Object.hasOwn(hierarchy, next)) pending.push(...hierarchy[next]);
+    }
+    reached.delete(action);
+    implies.set(action, reached);
+    for (const implied of reached) {
+      const impliers = impliedBy.get(implied) ?? new Set<string>();
+      impliers.add(action);
+      impliedBy.set(implied, impliers);
+    }
+  }
+  return { implies, impliedBy };
+}
+
+/**
+ * Builds the matcher for a requested action.
+ * @param action The requested action. A request for `*` is only covered by rules for `*`.
+ * @param related Actions a rule may name instead of the requested one: for allow rules the actions that
+ *   imply it, for deny rules the actions it implies.
+ */
+export function actionMatcher(action: string, related: Iterable<string> = []): ActionMatcher {
+  const candidates = [action, ...related];
+  const memberRank = (member: string): number => {
+    if (member === "*") return 0;
+    if (action === "*") return -1;
+    if (member === action) return 3;
+    if (candidates.includes(member)) return 2;
+    if (isActionNamespace(member)) {
+      const namespace = member.slice(0, -1);
+      return candidates.some(candidate => candidate.startsWith(namespace)) ? 1 : -1;
+    }
+    return -1;
+  };
+  // Rule actions repeat across nodes, and matchers are reused across checks, so sets are ranked once
+  const setRanks = new Map<string, number>();
+  const rank = (ruleAction: string): number => {
+    if (!ruleAction.includes(",")) return memberRank(ruleAction);
+    let result = setRanks.get(ruleAction);
+    if (result === undefined) {
+      result = Math.max(...ruleAction.split(",").map(memberRank));
+      setRanks.set(ruleAction, result);
+    }
+    return result;
+  };
+  return { action, rank, covers: ruleAction => rank(ruleAction) >= 0 };
+}
@@ -0,0 +1,265 @@
+import { isActionNamespace } from "./action";
+import { evaluateCondition } from "./condition";
+import { grantKey, PermissionNode, type StoredRule } from "./node";
+import { partition, type Region } from "./partition";
+import { joinPath } from "./path";
+import { isPattern } from "./pattern";
+import { expandGlobstars, isLiteral, pathCovers, samplePattern } from "./region";
+import type { PermissionTreeJSON } from "./serialize";
+import { compileTemplate, isTemplate, type PermissionContext } from "./template";
+import type { PermissionTree } from "./tree";
+
+/**
+ * Thrown when a set operation cannot be computed exactly for the given trees.
+ */
+export class SetOperationError extends Error {
+  constructor(reason: string) {
+    super(`Cannot combine permission trees: ${reason}`);
+    this.name = "SetOperationError";
+  }
+}
+
+/**
+ * Combines the decisions of two trees for one request.
+ */
+export type SetOperation = (a: boolean, b: boolean) => boolean;
+
+type Decider = Pick<PermissionTree, "isAllowed">;
+
+interface TreeRule extends StoredRule {
+  isDenied: boolean;
+}
+
+/**
+ * Prepares a tree for a set operation.
+ * With a context, templates are bound (rules that cannot be bound are dropped) and conditions are evaluated,
+ * leaving a tree that decides every request the way the original decides it in that context.
+ * Without one, templates are kept and conditional rules are rejected.
+ * @throws SetOperationError If the tree has a conditional rule and no context is given.
+ */
+export function specialize(json: PermissionTreeJSON, context?: PermissionContext): PermissionTreeJSON {
+  return rebuild(json, rule => {
+    if (context === undefined) {
+      if (rule.condition) {
+        throw new SetOperationError(`rule "${formatRule(rule)}" has a condition; pass a context to evaluate it`);
+      }
+      return rule;
+    }
+    if (rule.condition && !evaluateCondition(rule.condition, context)) return undefined;
+    const segments: string[] = [];
+    for (const segment of rule.segments) {
+      const bound = isTemplate(segment) ? compileTemplate(segment).bind(context) : segment;
+      if (bound === undefined) return undefined;
+      segments.push(bound);
+    }
+    return { ...rule, segments, condition: undefined };
+  });
+}
+
+/**
+ * A tree that allows at least what the given tree allows in any context: allow rules lose their conditions
+ * and conditional deny rules are dropped.
+ */
+export function widen(json: PermissionTreeJSON): PermissionTreeJSON {
+  return rebuild(json, rule => !rule.condition ? rule : rule.isDenied ? undefined : { ...rule, condition: undefined });
+}
+
+/**
+ * A tree that allows at most what the given tree allows in any context: conditional allow rules are dropped
+ * and deny rules lose their conditions.
+ */
+export function narrow(json: PermissionTreeJSON): PermissionTreeJSON {
+  return rebuild(json, rule => !rule.condition ? rule : rule.isDenied ? { ...rule, condition: undefined } : undefined);
+}
+
+/**
+ * A context binding every template variable of the trees to a value no rule names, so templates stand for
+ * a segment distinct from every literal and from each other.
+ */
+export function genericContext(trees: PermissionTreeJSON[]): PermissionContext {
+  const context: PermissionContext = {};
+  for (const variable of templateVariables(trees)) {
+    assign(context, variable, fresh(variable));
+  }
+  return context;
+}
+
+/**
+ * Contexts telling apart every way the trees can decide a request through their templates: each variable is
+ * bound to a value no rule names, to another variable's such value, or to a value that makes its segment one
+ * the rules name or their glob patterns match. Variables sharing a segment with another variable only take
+ * values no rule names.
+ * @throws SetOperationError If there are more than `MAX_BINDINGS` combinations.
+ */
+export function templateBindings(trees: PermissionTreeJSON[]): PermissionContext[] {
+  const variables = templateVariables(trees);
+  const named = new Set<string>();
+  const templates: string[] = [];
+  for (const rule of trees.flatMap(collect)) {
+    for (const segment of expandGlobstars(rule.segments)) {
+      if (isTemplate(segment)) {
+        templates.push(segment);
+      } else if (isLiteral(segment)) {
+        named.add(segment);
+      } else if (isPattern(segment)) {
+        samplePattern(segment, fresh("")).forEach(sample => named.add(sample));
+      }
+    }
+  }
+
+  const candidates = new Map<string, Set<string>>(
+    [...variables].map(variable => [variable, new Set([...variables].map(fresh))])
+  );
+  for (const template of templates) {
+    const { variables: used } = compileTemplate(template);
+    if (used.length !== 1) continue;
+    const start = template.indexOf("${");
+    const prefix = template.slice(0, start);
+    const suffix = template.slice(template.indexOf("}", start) + 1);
+    for (const segment of named) {
+      if (segment.length > prefix.length + suffix.length && segment.startsWith(prefix) && segment.endsWith(suffix)) {
+        candidates.get(used[0])!.add(segment.slice(prefix.length, segment.length - suffix.length));
+      }
+    }
+  }
+
+  const count = [...candidates.values()].reduce((product, values) => product * values.size, 1);
+  if (count > MAX_BINDINGS) {
+    throw new SetOperationError(`templates take ${count} distinguishable values, more than ${MAX_BINDINGS}; pass a context`);
+  }
+  let bindings: [string, string][][] = [[]];
+  for (const [variable, values] of candidates) {
+    bindings = bindings.flatMap(binding => [...values].map(value => [...binding, [variable, value] as [string, string]]));
+  }
+  return bindings.map(binding => {
+    const context: PermissionContext = {};
+    for (const [variable, value] of binding) assign(context, variable, value);
+    return context;
+  });
+}
+
+/**
+ * Adds to `target` the rules deciding every request as `operation` combines the decisions of `a` and `b`.
+ *
+ * Each region of the partition of both trees gets a rule per probed action, prioritized by how deeply the
+ * region is nested in others and by how specifically the action is named, so `target` must use the
+ * `priority` strategy. Rules are added from the lowest priority up, skipping those that would not change
+ * the decision `target` already makes.
+ * @param trees The serialized forms of `a` and `b`.
+ */
+export function combineInto(
+  target: Pick<PermissionTree, "isAllowed" | "addRule">,
+  a: Decider,
+  b: Decider,
+  trees: PermissionTreeJSON[],
+  operation: SetOperation,
+  context: PermissionContext,
+): void {
+  const { regions, probes } = partition(trees, context);
+  const depths = nestingDepths(regions);
+  const levels = Math.max(0, ...probes.map(([, action]) => namespaceDepth(action))) + 2;
+  const rank = (action: string) => action === "*" ? 0 : isActionNamespace(action) ? namespaceDepth(action) : levels - 1;
+
+  const rules: { request: string[]; probe: string; rule: string; allowed: boolean; priority: number }[] = [];
+  for (const [index, { path, request }] of regions.entries()) {
+    for (const [probe, action] of probes) {
+      const allowed = operation(a.isAllowed(request, probe, context), b.isAllowed(request, probe, context));
+      const priority = depths[index] * levels + rank(action);
+      rules.push({ request, probe, allowed, priority, rule: `${allowed ? "" : "!"}${path};;${action}^${priority}` });
+    }
+  }
+  for (const { request, probe, rule, allowed } of rules.sort((x, y) => x.priority - y.priority)) {
+    if (target.isAllowed(request, probe, context) !== allowed) target.addRule(rule);
+  }
+}
+
+/**
+ * Whether every request `a` allows is allowed by `b`, comparing the regions of both trees.
+ * @param trees The serialized forms of `a` and `b`.
+ */
+export function includes(a: Decider, b: Decider, trees: PermissionTreeJSON[], context: PermissionContext): boolean {
+  const { regions, probes } = partition(trees, context);
+  return regions.every(({ request }) =>
+    probes.every(([probe]) => !a.isAllowed(request, probe, context) || b.isAllowed(request, probe, context))
+  );
+}
+
+/**
+ * Most template bindings `templateBindings` enumerates.
+ */
+const MAX_BINDINGS = 4096;
+
+function templateVariables(trees: PermissionTreeJSON[]): Set<string> {
+  return new Set(
+    trees.flatMap(collect).flatMap(rule => rule.segments.filter(isTemplate).flatMap(segment => compileTemplate(segment).variables))
+  );
+}
+
+function fresh(variable: string): string {
+  return `\u0000${variable}`;
+}
+
+/**
+ * Sets a dotted variable path in a context. A path running through a value that is not an object is left unset.
+ */
+function assign(context: PermissionContext, variable: string, value: string): void {
+  const keys = variable.split(".");
+  let target: Record<string, unknown> = context;
+  for (const key of keys.slice(0, -1)) {
+    if (!Object.hasOwn(target, key)) Object.defineProperty(target, key, { value: {}, enumerable: true, writable: true });
+    const next = target[key];
+    if (next === null || typeof next !== "object") return;
+    target = next as Record<string, unknown>;
+  }
+  const last = keys[keys.length - 1];
+  if (!Object.hasOwn(target, last)) Object.defineProperty(target, last, { value, enumerable: true, writable: true });
+}
+
+/**
+ * For each region, the number of regions strictly containing it. A region only contains regions whose lengths
+ * it allows, which rules out most pairs before comparing their segments.
+ */
+function nestingDepths(regions: Region[]): number[] {
+  const lengths = regions.map(({ segments }) => {
+    const fixed = segments.filter(segment => segment !== "**").length;
+    return { min: fixed, max: segments.includes("**") ? Infinity : fixed };
+  });
+  return regions.map((region, index) => regions.filter((other, otherIndex) =>
+    other !== region &&
+    lengths[otherIndex].min <= lengths[index].min &&
+    lengths[otherIndex].max >= lengths[index].max &&
+    pathCovers(other.segments, region.segments) &&
+    !pathCovers(region.segments, other.segments)
+  ).length);
+}
+
+function namespaceDepth(action: string): number {
+  return isActionNamespace(action) ? action.split(":").length - 1 : 0;
+}
+
+/**
+ * Rebuilds a serialized tree from its rules after a transformation, which may drop a rule by returning undefined.
+ */
+function rebuild(json: PermissionTreeJSON, transform: (rule: TreeRule) => TreeRule | undefined): PermissionTreeJSON {
+  const allow = new PermissionNode();
+  const deny = new PermissionNode();
+  for (const rule of collect(json)) {
+    const transformed = transform(rule);
+    if (!transformed) continue;
+    for (let i = 0; i < transformed.count; i++) {
+      (transformed.isDenied ? deny : allow).insert(transformed.segments, transformed.action, transformed);
+    }
+  }
+  return { ...json, allow: allow.toJSON(), deny: deny.toJSON(), sources: [] };
+}
+
+function collect(json: PermissionTreeJSON): TreeRule[] {
+  return [
+    ...PermissionNode.fromJSON(json.allow).collectRules().map(rule => ({ ...rule, isDenied: false })),
+    ...PermissionNode.fromJSON(json.deny).collectRules().map(rule => ({ ...rule, isDenied: true })),
+  ];
+}
+
+function formatRule(rule: TreeRule): string {
+  return (rule.isDenied ? "!" : "") + joinPath(rule.segments) + ";;" + rule.action + grantKey(rule);
+}
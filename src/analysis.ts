@@ -0,0 +1,250 @@
+import { actionMatcher, isActionNamespace, type ActionClosures } from "./action";
+import { formatCondition, type ConditionExpression } from "./condition";
+import { expandGlobstars, isLiteral, pathCovers, pathsIntersect } from "./region";
+import type { ResolutionStrategy } from "./tree";
+
+/**
+ * The kinds of problem `analyze()` reports.
+ * - `duplicate`: the same rule was added more than once
+ * - `subsumed`: every request the rule matches is matched by another rule of the same effect
+ * - `shadowed`: an allow rule whose every request is denied by a deny rule, so it never grants access
+ * - `unused-deny`: a deny rule that never matches a request any allow rule grants
+ */
+export type RuleIssueKind = "duplicate" | "subsumed" | "shadowed" | "unused-deny";
+
+/**
+ * A problem found in a rule set.
+ */
+export interface RuleIssue {
+  kind: RuleIssueKind;
+  /** The redundant rule. */
+  rule: string;
+  /** The rule that makes `rule` redundant; absent for `duplicate` and `unused-deny`. */
+  by?: string;
+  message: string;
+}
+
+/**
+ * A rule prepared for analysis.
+ */
+export interface AnalyzedRule {
+  /** The rule as reported, e.g. `!users::*;;read`. */
+  rule: string;
+  isDenied: boolean;
+  segments: string[];
+  action: string;
+  condition?: ConditionExpression;
+  priority?: number;
+  /** Number of times the rule was added. */
+  count: number;
+}
+
+/**
+ * Finds duplicate, subsumed, shadowed and unused rules.
+ *
+ * The analysis is conservative: a rule is only reported when it is redundant for every request and context.
+ * Templates are compared as opaque segments, a conditional rule only makes rules with the same condition
+ * redundant, and subsumption and shadowing are not reported under `most-specific-wins`, where a narrower rule
+ * can change which rule wins.
+ * @param rules Rules in the order issues are reported.
+ * @param resolution The tree's conflict resolution strategy.
+ * @param closures The tree's action hierarchy.
+ */
+export function analyzeRules(rules: AnalyzedRule[], resolution: ResolutionStrategy, closures: ActionClosures): RuleIssue[] {
+  const issues: RuleIssue[] = [];
+  const actions = new ActionRelations(closures);
+  const paths = new Map<AnalyzedRule, string[]>(rules.map(rule => [rule, expandGlobstars(rule.segments)]));
+  const conditions = new Map<AnalyzedRule, string | undefined>(
+    rules.map(rule => [rule, rule.condition && formatCondition(rule.condition)])
+  );
+  const ranked = resolution === "priority";
+  const outranks = (a: AnalyzedRule, b: AnalyzedRule) => !ranked || (a.priority ?? 0) >= (b.priority ?? 0);
+  const conditionCovers = (outer: AnalyzedRule, inner: AnalyzedRule) =>
+    conditions.get(outer) === undefined || conditions.get(outer) === conditions.get(inner);
+  const candidates = relatedRules(rules, paths);
+  const order = new Map(rules.map((rule, index) => [rule, index]));
+  const covers = (outer: AnalyzedRule, inner: AnalyzedRule) =>
+    outer.isDenied === inner.isDenied &&
+    conditionCovers(outer, inner) &&
+    outranks(outer, inner) &&
+    pathCovers(paths.get(outer)!, paths.get(inner)!) &&
+    (inner.isDenied ? actions.denyCovers(outer.action, inner.action) : actions.allowCovers(outer.action, inner.action));
+
+  for (const [index, rule] of rules.entries()) {
+    const related = candidates.get(rule)!;
+    if (rule.count > 1) {
+      issues.push({ kind: "duplicate", rule: rule.rule, message: `Rule "${rule.rule}" is added ${rule.count} times.` });
+    }
+
+    if (resolution !== "most-specific-wins") {
+      // Two rules covering each other are equivalent; only the later one is reported
+      const subsuming = related.find(other =>
+        other !== rule && covers(other, rule) && (order.get(other)! < index || !covers(rule, other))
+      );
+      if (subsuming) {
+        issues.push({
+          kind: "subsumed",
+          rule: rule.rule,
+          by: subsuming.rule,
+          message: `Rule "${rule.rule}" is redundant: every request it matches is also matched by "${subsuming.rule}".`,
+        });
+        continue;
+      }
+    }
+
+    if (!rule.isDenied && resolution !== "most-specific-wins" && resolution !== "allow-overrides") {
+      const shadowing = related.find(other =>
+        other.isDenied &&
+        conditions.get(other) === undefined &&
+        outranks(other, rule) &&
+        pathCovers(paths.get(other)!, paths.get(rule)!) &&
+        actions.denyShadows(other.action, rule.action)
+      );
+      if (shadowing) {
+        issues.push({
+          kind: "shadowed",
+          rule: rule.rule,
+          by: shadowing.rule,
+          message: `Allow rule "${rule.rule}" can never grant access: every request it matches is denied by "${shadowing.rule}".`,
+        });
+      }
+    }
+
+    if (rule.isDenied) {
+      const overlapping = related.some(other =>
+        !other.isDenied &&
+        pathsIntersect(paths.get(rule)!, paths.get(other)!) &&
+        actions.overlap(rule.action, other.action)
+      );
+      if (!overlapping) {
+        issues.push({
+          kind: "unused-deny",
+          rule: rule.rule,
+          message: `Deny rule "${rule.rule}" never matches a request that any allow rule grants.`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * The rules each rule can relate to, in order. Rules whose first segments are different literals never
+ * cover or intersect each other, so grouping by first segment skips most pairs.
+ */
+function relatedRules(rules: AnalyzedRule[], paths: Map<AnalyzedRule, string[]>): Map<AnalyzedRule, AnalyzedRule[]> {
+  const heads = new Map<AnalyzedRule, string | undefined>(
+    rules.map(rule => {
+      const head = paths.get(rule)![0];
+      return [rule, isLiteral(head) ? head : undefined];
+    })
+  );
+  const byHead = new Map<string, AnalyzedRule[]>();
+  const unanchored: AnalyzedRule[] = [];
+  for (const rule of rules) {
+    const head = heads.get(rule);
+    if (head === undefined) {
+      unanchored.push(rule);
+    } else {
+      const group = byHead.get(head) ?? [];
+      group.push(rule);
+      byHead.set(head, group);
+    }
+  }
+  const order = new Map(rules.map((rule, index) => [rule, index]));
+  const related = new Map<AnalyzedRule, AnalyzedRule[]>();
+  for (const group of byHead.values()) {
+    const merged = [...group, ...unanchored].sort((a, b) => order.get(a)! - order.get(b)!);
+    for (const rule of group) {
+      related.set(rule, merged);
+    }
+  }
+  for (const rule of unanchored) {
+    related.set(rule, rules);
+  }
+  return related;
+}
+
+/**
+ * Containment and overlap between rule actions, taking the action hierarchy into account.
+ */
+class ActionRelations {
+  private cache = new Map<string, boolean>();
+
+  constructor(private readonly closures: ActionClosures) {}
+
+  /** Memoizes a relation between two rule actions; rule sets reuse a handful of actions. */
+  private memo(relation: string, a: string, b: string, compute: () => boolean): boolean {
+    const key = `${relation} ${a} ${b}`;
+    let result = this.cache.get(key);
+    if (result === undefined) {
+      result = compute();
+      this.cache.set(key, result);
+    }
+    return result;
+  }
+
+  /** Whether an allow rule for `outer` grants every action an allow rule for `inner` grants. */
+  allowCovers(outer: string, inner: string): boolean {
+    return this.memo("allowCovers", outer, inner, () =>
+      inner.split(",").every(member =>
+        isConcrete(member) ? this.allowMatcher(member).covers(outer) : coversSyntactically(outer, member)
+      )
+    );
+  }
+
+  /** Whether a deny rule for `outer` denies every action a deny rule for `inner` denies. */
+  denyCovers(outer: string, inner: string): boolean {
+    return this.memo("denyCovers", outer, inner, () =>
+      inner.split(",").every(member =>
+        isConcrete(member) ? this.denyMatcher(member).covers(outer) : coversSyntactically(outer, member)
+      )
+    );
+  }
+
+  /** Whether a deny rule for `deny` denies every action an allow rule for `allow` grants. */
+  denyShadows(deny: string, allow: string): boolean {
+    return this.memo("denyShadows", deny, allow, () =>
+      allow.split(",").every(member =>
+        isConcrete(member)
+          ? this.granted(member).every(action => this.denyMatcher(action).covers(deny))
+          : coversSyntactically(deny, member)
+      )
+    );
+  }
+
+  /** Whether some action granted by an allow rule for `allow` is denied by a deny rule for `deny`. Errs towards true. */
+  overlap(deny: string, allow: string): boolean {
+    return this.memo("overlap", deny, allow, () =>
+      allow.split(",").some(member =>
+        !isConcrete(member) || this.granted(member).some(action => this.denyMatcher(action).covers(deny))
+      )
+    );
+  }
+
+  /** The action and every action it implies. */
+  private granted(action: string): string[] {
+    return [action, ...(this.closures.implies.get(action) ?? [])];
+  }
+
+  private allowMatcher(action: string) {
+    return actionMatcher(action, this.closures.impliedBy.get(action));
+  }
+
+  private denyMatcher(action: string) {
+    return actionMatcher(action, this.closures.implies.get(action));
+  }
+}
+
+function isConcrete(action: string): boolean {
+  return action !== "*" && !isActionNamespace(action);
+}
+
+/**
+ * Whether `outer` covers a `*` or namespace action through its own `*` or namespace members.
+ */
+function coversSyntactically(outer: string, member: string): boolean {
+  return outer.split(",").some(candidate =>
+    candidate === "*" || (member !== "*" && isActionNamespace(candidate) && member.startsWith(candidate.slice(0, -1)))
+  );
+}
@@ -0,0 +1,211 @@
+import { parseCondition, type ConditionExpression } from "./condition";
+import { grantKey } from "./node";
+import { findStray } from "./parser";
+import { formatRule, resolveSeparators, type Separators } from "./path";
+import { isPattern } from "./pattern";
+import { isTemplate } from "./template";
+
+const WILDCARDS = new Set(["*", "**", "***"]);
+
+/**
+ * An immutable, fluent description of one permission rule. Every method returns a new builder, so a partial
+ * rule can be shared. Pass it to a `PermissionTree` as-is or turn it into a string with `build()`.
+ *
+ * @example
+ * ```ts
+ * rule().allow().on("users", userId, "posts").any().action("read").build() // "users::<userId>::posts::*;;read"
+ * new PermissionTree([rule().deny().under("sensitive").all()])              // "!sensitive::**;;*"
+ * ```
+ */
+export class RuleBuilder {
+  private constructor(
+    private readonly denied: boolean,
+    private readonly segments: readonly string[],
+    private readonly actions: readonly string[],
+    private readonly rank?: number,
+    private readonly condition?: ConditionExpression
+  ) {}
+
+  /**
+   * An empty allow rule.
+   */
+  static create(): RuleBuilder {
+    return new RuleBuilder(false, [], []);
+  }
+
+  /**
+   * Makes the rule grant access; this is the default.
+   */
+  allow(): RuleBuilder {
+    return this.with({ denied: false });
+  }
+
+  /**
+   * Makes the rule an exclusion, written with `!`.
+   */
+  deny(): RuleBuilder {
+    return this.with({ denied: true });
+  }
+
+  /**
+   * Appends literal segments, e.g. IDs, matching only themselves. Separators inside them are escaped, and a
+   * segment the tree would read as a wildcard, pattern or template, or a first segment starting with `!`, is
+   * written as a glob matching just that segment, e.g. `a\*` or `{/v1/}`.
+   * @throws TypeError If a segment is empty.
+   */
+  on(...segments: (string | number)[]): RuleBuilder {
+    const written = [...this.segments];
+    for (const value of segments.map(String)) {
+      if (value === "") throw new TypeError("A literal segment cannot be empty");
+      written.push(literalSegment(value, written.length === 0));
+    }
+    return this.with({ segments: written });
+  }
+
+  /**
+   * Appends `*`, matching any one segment.
+   */
+  any(): RuleBuilder {
+    return this.with({ segments: [...this.segments, "*"] });
+  }
+
+  /**
+   * Appends literal segments and `**`, matching the resource they name and everything below it.
+   * @throws TypeError If a segment is empty.
+   */
+  under(...segments: (string | number)[]): RuleBuilder {
+    const scoped = this.on(...segments);
+    return scoped.with({ segments: [...scoped.segments, "**"] });
+  }
+
+  /**
+   * Appends literal segments and `***`, matching everything below the resource they name but not the resource itself.
+   * @throws TypeError If a segment is empty.
+   */
+  below(...segments: (string | number)[]): RuleBuilder {
+    const scoped = this.on(...segments);
+    return scoped.with({ segments: [...scoped.segments, "***"] });
+  }
+
+  /**
+   * Appends a glob or `/regex/` segment, e.g. `reports-*`, or a `${variable}` template, taken as written.
+   * A glob starting the rule with `!` has it escaped, so the rule is not read as a deny rule.
+   * @throws TypeError If the segment is empty or contains `??`, or starts the rule with `!` and is not a glob.
+   */
+  pattern(segment: string): RuleBuilder {
+    if (segment === "") throw new TypeError("A pattern segment cannot be empty");
+    // `??` would start the rule's condition
+    if (segment.includes("??")) throw new TypeError(`Pattern segment "${segment}" cannot contain '??'`);
+    if (this.segments.length === 0 && segment.startsWith("!")) {
+      if (!isPattern(segment)) throw new TypeError(`"${segment}" cannot start a rule; only a glob's leading '!' can be escaped`);
+      return this.with({ segments: [`\\${segment}`] });
+    }
+    return this.with({ segments: [...this.segments, segment] });
+  }
+
+  /**
+   * Sets the actions the rule covers; several become an action set such as `read,write`.
+   * @throws TypeError If an action is empty or contains `,`, `^`, `??` or a separator.
+   */
+  action(...actions: string[]): RuleBuilder {
+    for (const action of actions) {
+      if (action === "" || /,|\^|\?\?/.test(action)) throw new TypeError(`Invalid action "${action}"`);
+    }
+    return this.with({ actions });
+  }
+
+  /**
+   * Makes the rule cover every action, `*`; this is the default.
+   */
+  all(): RuleBuilder {
+    return this.with({ actions: [] });
+  }
+
+  /**
+   * Sets the rule's rank for the `priority` resolution strategy, written `^n`.
+   * @throws TypeError If the priority is not an integer.
+   */
+  priority(priority: number): RuleBuilder {
+    if (!Number.isInteger(priority)) throw new TypeError(`Priority must be an integer, got ${priority}`);
+    return this.with({ rank: priority });
+  }
+
+  /**
+   * Makes the rule apply only when a condition holds, written after `??`, e.g. `context.mfa == true`.
+   * @throws ConditionSyntaxError If the condition is malformed.
+   */
+  when(condition: string | ConditionExpression): RuleBuilder {
+    return this.with({ condition: typeof condition === "string" ? parseCondition(condition) : condition });
+  }
+
+  /**
+   * Writes the rule in the canonical format `toRules()` returns.
+   * @param separators Separators of the tree the rule is for; a tree given the builder itself uses its own.
+   * @throws TypeError If the rule has no segments, an action contains a separator or a stray half of one such
+   * as the `;` of `re;ad`, or the separators are invalid.
+   */
+  build(separators?: Partial<Separators>): string {
+    if (this.segments.length === 0) throw new TypeError("A rule needs at least one segment");
+    const resolved = resolveSeparators(separators);
+    for (const action of this.actions) {
+      if (action.includes(resolved.segment) || action.includes(resolved.action) || findStray(action, resolved)) {
+        throw new TypeError(`Invalid action "${action}"`);
+      }
+    }
+    const action = this.actions.length === 0 ? "*" : this.actions.join(",");
+    return (this.denied ? "!" : "") + formatRule(this.segments, action, resolved) + grantKey({ priority: this.rank, condition: this.condition });
+  }
+
+  /**
+   * The rule with the default separators, as `build()` writes it.
+   */
+  toString(): string {
+    return this.build();
+  }
+
+  private with(changes: {
+    denied?: boolean;
+    segments?: readonly string[];
+    actions?: readonly string[];
+    rank?: number;
+    condition?: ConditionExpression;
+  }): RuleBuilder {
+    return new RuleBuilder(
+      changes.denied ?? this.denied,
+      changes.segments ?? this.segments,
+      changes.actions ?? this.actions,
+      changes.rank ?? this.rank,
+      changes.condition ?? this.condition
+    );
+  }
+}
+
+/**
+ * A segment matching exactly `value`: the value itself, or a glob escaping it if the tree would not read it literally.
+ * @param first Whether the segment starts the rule, where a leading `!` would make it a deny rule.
+ */
+function literalSegment(value: string, first: boolean): string {
+  if (!WILDCARDS.has(value) && !isPattern(value) && !isTemplate(value) && !(first && value.startsWith("!"))) return value;
+  const glob = value.replace(/[\\*?{},!]/g, "\\$&");
+  // Without a glob character left, e.g. in `/v1/`, a single alternative makes it a glob
+  return /[*?{]/.test(glob) ? glob : `{${glob}}`;
+}
+
+/**
+ * Starts building a permission rule, see `RuleBuilder`.
+ */
+export function rule(): RuleBuilder {
+  return RuleBuilder.create();
+}
+
+/**
+ * A permission as trees accept it: a permission string or a `RuleBuilder`.
+ */
+export type PermissionInput = string | RuleBuilder;
+
+/**
+ * The permission string of an input, written with the given separators.
+ */
+export function permissionText(permission: PermissionInput, separators: Separators): string {
+  return typeof permission === "string" ? permission : permission.build(separators);
+}
@@ -0,0 +1,340 @@
+import type { ActionMatcher } from "./action";
+import { evaluateCondition, type ConditionExpression } from "./condition";
+import type { PermissionNode } from "./node";
+import { toSegments, type ResourcePathLike, type Separators } from "./path";
+import type { SegmentPattern } from "./pattern";
+import type { PermissionContext, SegmentTemplate } from "./template";
+import type { PermissionExplanation, PermissionTree, ResolutionStrategy } from "./tree";
+
+/**
+ * Options for `PermissionTree.compile`.
+ */
+export interface CompileOptions {
+  /**
+   * Number of `(path, action)` decisions to keep in a least-recently-used cache; 0 disables it.
+   * Decisions depending on a context are only cached when none is passed. Defaults to 1000.
+   */
+  cacheSize?: number;
+}
+
+/**
+ * What `PermissionTree.compile` hands over: a private copy of the tree and its internals.
+ */
+export interface CompileSource {
+  tree: PermissionTree;
+  allow: PermissionNode;
+  deny: PermissionNode;
+  resolution: ResolutionStrategy;
+  separators: Separators;
+  matchers(action: string): { allow: ActionMatcher; deny: ActionMatcher };
+}
+
+/**
+ * A frozen, array-backed form of a `PermissionTree` for read-heavy workloads.
+ * Built by `tree.compile()`; later changes to the tree do not affect it.
+ *
+ * @example
+ * ```ts
+ * const compiled = new PermissionTree(rules).compile({ cacheSize: 10_000 })
+ * compiled.isAllowed("users::123::posts", "read")
+ * ```
+ */
+export class CompiledPermissionTree {
+  private readonly allow: Automaton;
+  private readonly deny: Automaton;
+  private readonly tree: PermissionTree;
+  private readonly resolution: ResolutionStrategy;
+  private readonly separators: Separators;
+  private readonly matchers: CompileSource["matchers"];
+  /** Whether decisions can depend on the context, through templates or conditions. */
+  private readonly contextual: boolean;
+  private readonly cache?: DecisionCache;
+  /** Rule actions covering each requested action, as bitsets over each automaton's actions. */
+  private coverage = new Map<string, { allow: Uint32Array; deny: Uint32Array }>();
+
+  /** @internal Use `PermissionTree.compile`. */
+  constructor(source: CompileSource, options: CompileOptions = {}) {
+    this.tree = source.tree;
+    this.resolution = source.resolution;
+    this.separators = source.separators;
+    this.matchers = source.matchers;
+    this.allow = new Automaton(source.allow);
+    this.deny = new Automaton(source.deny);
+    this.contextual = this.allow.contextual || this.deny.contextual;
+    const cacheSize = options.cacheSize ?? 1000;
+    if (cacheSize > 0) this.cache = new DecisionCache(cacheSize);
+  }
+
+  /**
+   * Checks whether access is allowed, like `PermissionTree.isAllowed`.
+   * Trees using `most-specific-wins` or `priority` are checked through the original tree, with the cache in front.
+   */
+  isAllowed(resourcePath: ResourcePathLike, action: string, context?: PermissionContext): boolean {
+    if (!this.cache || (context !== undefined && this.contextual)) {
+      return this.decide(resourcePath, action, context);
+    }
+    // Paths are keyed by their segments, joined with a character that separators and segments do not contain
+    const segments = toSegments(resourcePath, this.separators);
+    const key = action + "\u0000" + segments.join("\u0000");
+    let allowed = this.cache.get(key);
+    if (allowed === undefined) {
+      allowed = this.decide(segments, action, context);
+      this.cache.set(key, allowed);
+    }
+    return allowed;
+  }
+
+  /**
+   * Explains why a permission is allowed or denied, like `PermissionTree.explain`.
+   */
+  explain(resourcePath: ResourcePathLike, action: string, context?: PermissionContext): PermissionExplanation {
+    return this.tree.explain(resourcePath, action, context);
+  }
+
+  private decide(resourcePath: ResourcePathLike, action: string, context?: PermissionContext): boolean {
+    if (this.resolution !== "deny-overrides" && this.resolution !== "allow-overrides") {
+      return this.tree.isAllowed(resourcePath, action, context);
+    }
+    const segments = toSegments(resourcePath, this.separators);
+    const coverage = this.coverageFor(action);
+    if (this.resolution === "deny-overrides" && this.deny.match(segments, coverage.deny, context)) return false;
+    return this.allow.match(segments, coverage.allow, context);
+  }
+
+  private coverageFor(action: string): { allow: Uint32Array; deny: Uint32Array } {
+    let coverage = this.coverage.get(action);
+    if (!coverage) {
+      // Requested actions may come from user input; bound the map rather than grow with it
+      if (this.coverage.size >= MAX_COVERAGE_ENTRIES) this.coverage.clear();
+      const matchers = this.matchers(action);
+      coverage = { allow: this.allow.coverage(matchers.allow), deny: this.deny.coverage(matchers.deny) };
+      this.coverage.set(action, coverage);
+    }
+    return coverage;
+  }
+}
+
+/**
+ * Most requested actions whose coverage bitsets a compiled tree keeps.
+ */
+const MAX_COVERAGE_ENTRIES = 256;
+
+/**
+ * Child slots for the multi-segment wildcards, with the fewest segments each consumes.
+ */
+const GLOBSTAR_MINIMUMS = [1, 0] as const;
+
+/**
+ * One side (allow or deny) of a compiled tree.
+ *
+ * Nodes are numbered breadth-first. Literal edges live in one map keyed by `node * segmentCount + segment`,
+ * wildcard edges in typed arrays, and the unconditional grants of each node in `words` 32-bit words, one
+ * bit per distinct rule action.
+ */
+class Automaton {
+  readonly contextual: boolean;
+  private readonly segmentIds = new Map<string, number>();
+  private readonly edges = new Map<number, number>();
+  private readonly wildcard: Int32Array;
+  /** `***` and `**` children, in the order of `GLOBSTAR_MINIMUMS`. */
+  private readonly globstars: [Int32Array, Int32Array];
+  private readonly leaf: Uint8Array;
+  private readonly templates: ([template: SegmentTemplate, child: number][] | undefined)[];
+  private readonly patterns: ([pattern: SegmentPattern, child: number][] | undefined)[];
+  private readonly actions: string[] = [];
+  private readonly words: number;
+  private readonly grants: Uint32Array;
+  private readonly conditional: ([action: number, conditions: ConditionExpression[]][] | undefined)[];
+
+  constructor(root: PermissionNode) {
+    const nodes: PermissionNode[] = [root];
+    const index = new Map<PermissionNode, number>([[root, 0]]);
+    for (let i = 0; i < nodes.length; i++) {
+      for (const child of nodes[i].children.values()) {
+        index.set(child, nodes.length);
+        nodes.push(child);
+      }
+    }
+    const actionIds = new Map<string, number>();
+    for (const node of nodes) {
+      for (const segment of node.children.keys()) {
+        if (!node.templates.has(segment) && !node.patterns.has(segment) && !this.segmentIds.has(segment)) {
+          this.segmentIds.set(segment, this.segmentIds.size);
+        }
+      }
+      for (const action of node.actions.keys()) {
+        if (!actionIds.has(action)) {
+          actionIds.set(action, actionIds.size);
+          this.actions.push(action);
+        }
+      }
+    }
+
+    const count = nodes.length;
+    const segmentCount = this.segmentIds.size;
+    this.words = Math.ceil(this.actions.length / 32);
+    this.wildcard = new Int32Array(count).fill(-1);
+    this.globstars = [new Int32Array(count).fill(-1), new Int32Array(count).fill(-1)];
+    this.leaf = new Uint8Array(count);
+    this.templates = new Array(count);
+    this.patterns = new Array(count);
+    this.grants = new Uint32Array(count * this.words);
+    this.conditional = new Array(count);
+    let contextual = false;
+
+    nodes.forEach((node, id) => {
+      this.leaf[id] = node.children.size === 0 ? 1 : 0;
+      for (const [segment, child] of node.children) {
+        const childId = index.get(child)!;
+        const template = node.templates.get(segment);
+        const pattern = node.patterns.get(segment);
+        if (template) {
+          (this.templates[id] ??= []).push([template, childId]);
+          contextual = true;
+        } else if (pattern) {
+          (this.patterns[id] ??= []).push([pattern, childId]);
+        } else {
+          this.edges.set(id * segmentCount + this.segmentIds.get(segment)!, childId);
+        }
+        if (segment === "*") this.wildcard[id] = childId;
+        if (segment === "***") this.globstars[0][id] = childId;
+        if (segment === "**") this.globstars[1][id] = childId;
+      }
+      for (const [action, grants] of node.actions) {
+        const actionId = actionIds.get(action)!;
+        const conditions = [...grants.values()].map(grant => grant.condition);
+        if (conditions.some(condition => !condition)) {
+          this.grants[id * this.words + (actionId >>> 5)] |= 1 << (actionId & 31);
+        } else {
+          (this.conditional[id] ??= []).push([actionId, conditions as ConditionExpression[]]);
+          contextual = true;
+        }
+      }
+    });
+    this.contextual = contextual;
+  }
+
+  /**
+   * The rule actions a matcher covers, as a bitset over this automaton's actions.
+   */
+  coverage(matcher: ActionMatcher): Uint32Array {
+    const bits = new Uint32Array(this.words);
+    this.actions.forEach((action, id) => {
+      if (matcher.covers(action)) bits[id >>> 5] |= 1 << (id & 31);
+    });
+    return bits;
+  }
+
+  /**
+   * Whether a rule matching the path grants an action in `coverage`; the same walk as `PermissionNode.match`.
+   */
+  match(segments: readonly string[], coverage: Uint32Array, context?: PermissionContext): boolean {
+    const segmentCount = this.segmentIds.size;
+    const nodes: number[] = [0];
+    const positions: number[] = [0];
+    while (nodes.length > 0) {
+      const node = nodes.pop()!;
+      const position = positions.pop()!;
+      const remaining = segments.length - position;
+
+      for (let g = 0; g < GLOBSTAR_MINIMUMS.length; g++) {
+        const globstar = this.globstars[g][node];
+        const minimum = GLOBSTAR_MINIMUMS[g];
+        if (globstar === -1 || remaining < minimum) continue;
+        if (this.leaf[globstar] === 1) {
+          nodes.push(globstar);
+          positions.push(segments.length);
+          continue;
+        }
+        for (let consumed = minimum; consumed <= remaining; consumed++) {
+          nodes.push(globstar);
+          positions.push(position + consumed);
+        }
+      }
+
+      if (remaining === 0) {
+        if (this.grantsAt(node, coverage, context)) return true;
+        continue;
+      }
+
+      const head = segments[position];
+      const patterns = this.patterns[node];
+      if (patterns) {
+        for (let i = 0; i < patterns.length; i++) {
+          if (patterns[i][0].test(head)) {
+            nodes.push(patterns[i][1]);
+            positions.push(position + 1);
+          }
+        }
+      }
+      const templates = this.templates[node];
+      if (templates) {
+        for (let i = 0; i < templates.length; i++) {
+          if (templates[i][0].bind(context) === head) {
+            nodes.push(templates[i][1]);
+            positions.push(position + 1);
+          }
+        }
+      }
+      if (this.wildcard[node] !== -1) {
+        nodes.push(this.wildcard[node]);
+        positions.push(position + 1);
+      }
+      const segment = this.segmentIds.get(head);
+      const exact = segment === undefined ? undefined : this.edges.get(node * segmentCount + segment);
+      if (exact !== undefined) {
+        nodes.push(exact);
+        positions.push(position + 1);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Whether a grant at the node covers the request: an unconditional one through the bitset, or a
+   * conditional one whose condition holds.
+   */
+  private grantsAt(node: number, coverage: Uint32Array, context?: PermissionContext): boolean {
+    const offset = node * this.words;
+    for (let w = 0; w < this.words; w++) {
+      if ((this.grants[offset + w] & coverage[w]) !== 0) return true;
+    }
+    const conditional = this.conditional[node];
+    if (!conditional) return false;
+    for (let i = 0; i < conditional.length; i++) {
+      const action = conditional[i][0];
+      const conditions = conditional[i][1];
+      if ((coverage[action >>> 5] & (1 << (action & 31))) === 0) continue;
+      for (let j = 0; j < conditions.length; j++) {
+        if (evaluateCondition(conditions[j], context)) return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Least-recently-used map of decisions, relying on `Map` keeping insertion order.
+ */
+class DecisionCache {
+  private entries = new Map<string, boolean>();
+
+  constructor(private readonly size: number) {}
+
+  get(key: string): boolean | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Move the entry to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: boolean): void {
+    this.entries.set(key, value);
+    if (this.entries.size > this.size) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
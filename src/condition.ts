@@ -0,0 +1,312 @@
+import type { PermissionContext } from "./template";
+
+/**
+ * Comparison operators of the condition language.
+ */
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in";
+
+/**
+ * A parsed condition. Plain data, so it can be stored and sent as JSON.
+ */
+export type ConditionExpression =
+  | { type: "literal"; value: string | number | boolean | null }
+  | { type: "variable"; path: string }
+  | { type: "list"; items: ConditionExpression[] }
+  | { type: "not"; operand: ConditionExpression }
+  | { type: "and" | "or"; left: ConditionExpression; right: ConditionExpression }
+  | { type: "compare"; operator: ComparisonOperator; left: ConditionExpression; right: ConditionExpression };
+
+/**
+ * Thrown when a condition expression is malformed.
+ */
+export class ConditionSyntaxError extends Error {
+  /**
+   * @param reason What is wrong with the expression.
+   * @param source The offending expression.
+   * @param column 1-based column at which the problem was found.
+   */
+  constructor(
+    readonly reason: string,
+    readonly source: string,
+    readonly column: number,
+  ) {
+    super(`Invalid condition "${source}" at column ${column}: ${reason}`);
+    this.name = "ConditionSyntaxError";
+  }
+}
+
+interface Token {
+  kind: "number" | "string" | "identifier" | "operator" | "end";
+  text: string;
+  value?: string | number;
+  offset: number;
+}
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")", "[", "]", ","];
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /-?\d+(\.\d+)?([eE][+-]?\d+)?/y;
+
+/**
+ * Characters written with a letter after `\` in strings, as in JSON; any other escaped character stands for itself.
+ */
+const ESCAPES: Record<string, string> = { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  while (offset < source.length) {
+    const char = source[offset];
+    if (/\s/.test(char)) {
+      offset++;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = "";
+      let end = offset + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] !== "\\") {
+          value += source[end++];
+        } else if (source[end + 1] === "u") {
+          const hex = source.slice(end + 2, end + 6);
+          if (!/^[\da-fA-F]{4}$/.test(hex)) throw new ConditionSyntaxError("invalid \\u escape", source, end + 1);
+          value += String.fromCharCode(Number.parseInt(hex, 16));
+          end += 6;
+        } else if (end + 1 < source.length) {
+          value += ESCAPES[source[end + 1]] ?? source[end + 1];
+          end += 2;
+        } else {
+          end++;
+        }
+      }
+      if (end >= source.length) throw new ConditionSyntaxError("unterminated string", source, offset + 1);
+      tokens.push({ kind: "string", text: source.slice(offset, end + 1), value, offset });
+      offset = end + 1;
+      continue;
+    }
+    NUMBER.lastIndex = offset;
+    const number = NUMBER.exec(source);
+    if (number && (char !== "-" || tokens.length === 0 || tokens[tokens.length - 1].kind === "operator")) {
+      tokens.push({ kind: "number", text: number[0], value: Number(number[0]), offset });
+      offset += number[0].length;
+      continue;
+    }
+    IDENTIFIER.lastIndex = offset;
+    const identifier = IDENTIFIER.exec(source);
+    if (identifier) {
+      tokens.push({ kind: "identifier", text: identifier[0], offset });
+      offset += identifier[0].length;
+      continue;
+    }
+    const operator = OPERATORS.find(op => source.startsWith(op, offset));
+    if (operator) {
+      tokens.push({ kind: "operator", text: operator, offset });
+      offset += operator.length;
+      continue;
+    }
+    if (char === ".") {
+      tokens.push({ kind: "operator", text: ".", offset });
+      offset++;
+      continue;
+    }
+    throw new ConditionSyntaxError(`unexpected character '${char}'`, source, offset + 1);
+  }
+  tokens.push({ kind: "end", text: "", offset: source.length });
+  return tokens;
+}
+
+/**
+ * Parses a condition expression.
+ *
+ * The language supports literals (`"text"`, `'text'`, numbers, `true`, `false`, `null`),
+ * dotted variable paths into the request context (`resource.ownerId`), lists (`["a", "b"]`),
+ * comparisons (`==`, `!=`, `<`, `<=`, `>`, `>=`, `in`), `!`, `&&`, `||` and parentheses.
+ * @param source Expression text, e.g. `resource.ownerId == subject.id`.
+ * @throws ConditionSyntaxError If the expression is malformed.
+ */
+export function parseCondition(source: string): ConditionExpression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (reason: string, token = peek()): never => {
+    throw new ConditionSyntaxError(reason, source, token.offset + 1);
+  };
+  const accept = (text: string) => {
+    const token = peek();
+    if ((token.kind === "operator" || token.kind === "identifier") && token.text === text) {
+      position++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (text: string) => {
+    if (!accept(text)) fail(peek().kind === "end" ? `expected '${text}' before the end` : `expected '${text}'`);
+  };
+
+  const parseOr = (): ConditionExpression => {
+    let left = parseAnd();
+    while (accept("||")) left = { type: "or", left, right: parseAnd() };
+    return left;
+  };
+  const parseAnd = (): ConditionExpression => {
+    let left = parseNot();
+    while (accept("&&")) left = { type: "and", left, right: parseNot() };
+    return left;
+  };
+  const parseNot = (): ConditionExpression => {
+    if (accept("!")) return { type: "not", operand: parseNot() };
+    return parseComparison();
+  };
+  const parseComparison = (): ConditionExpression => {
+    const left = parseOperand();
+    const token = peek();
+    const operator = ["==", "!=", "<", "<=", ">", ">=", "in"].find(op => token.text === op && token.kind !== "string");
+    if (!operator) return left;
+    position++;
+    return { type: "compare", operator: operator as ComparisonOperator, left, right: parseOperand() };
+  };
+  const parseOperand = (): ConditionExpression => {
+    const token = peek();
+    if (token.kind === "number" || token.kind === "string") {
+      position++;
+      return { type: "literal", value: token.value! };
+    }
+    if (accept("(")) {
+      const inner = parseOr();
+      expect(")");
+      return inner;
+    }
+    if (accept("[")) {
+      const items: ConditionExpression[] = [];
+      if (!accept("]")) {
+        do {
+          items.push(parseOperand());
+        } while (accept(","));
+        expect("]");
+      }
+      return { type: "list", items };
+    }
+    if (token.kind === "identifier") {
+      position++;
+      if (token.text === "true" || token.text === "false") return { type: "literal", value: token.text === "true" };
+      if (token.text === "null") return { type: "literal", value: null };
+      if (token.text === "in") fail("unexpected 'in'", token);
+      let path = token.text;
+      while (accept(".")) {
+        const next = peek();
+        if (next.kind !== "identifier" && !(next.kind === "number" && /^\d+$/.test(next.text))) fail("expected a property name after '.'");
+        path += "." + next.text;
+        position++;
+      }
+      return { type: "variable", path };
+    }
+    return fail(token.kind === "end" ? "unexpected end of condition" : `unexpected '${token.text}'`);
+  };
+
+  const expression = parseOr();
+  if (peek().kind !== "end") fail(`unexpected '${peek().text}'`);
+  return expression;
+}
+
+const PRECEDENCE = { or: 1, and: 2, not: 3, compare: 4 } as const;
+
+/**
+ * Formats a condition in canonical form: single spaces around binary operators, double-quoted strings
+ * and only the parentheses precedence requires.
+ */
+export function formatCondition(expression: ConditionExpression): string {
+  const format = (node: ConditionExpression, minPrecedence: number): string => {
+    let text: string;
+    let precedence: number = 5;
+    switch (node.type) {
+      case "literal":
+        return JSON.stringify(node.value);
+      case "variable":
+        return node.path;
+      case "list":
+        return `[${node.items.map(item => format(item, 0)).join(", ")}]`;
+      case "not":
+        precedence = PRECEDENCE.not;
+        text = "!" + format(node.operand, PRECEDENCE.not);
+        break;
+      case "and":
+      case "or":
+        precedence = PRECEDENCE[node.type];
+        text = `${format(node.left, precedence)} ${node.type === "and" ? "&&" : "||"} ${format(node.right, precedence + 1)}`;
+        break;
+      case "compare":
+        precedence = PRECEDENCE.compare;
+        text = `${format(node.left, precedence + 1)} ${node.operator} ${format(node.right, precedence + 1)}`;
+        break;
+    }
+    return precedence < minPrecedence ? `(${text})` : text;
+  };
+  return format(expression, 0);
+}
+
+/**
+ * Evaluates a condition against a request context.
+ * Any comparison involving a missing variable is false (so two missing ids are never equal),
+ * comparisons between mismatched types are false, and the condition passes only if it evaluates
+ * to exactly `true`. Evaluation never throws.
+ */
+export function evaluateCondition(expression: ConditionExpression, context: PermissionContext | undefined): boolean {
+  return evaluate(expression, context) === true;
+}
+
+function evaluate(node: ConditionExpression, context: PermissionContext | undefined): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "variable":
+      return lookup(context, node.path);
+    case "list":
+      return node.items.map(item => evaluate(item, context));
+    case "not":
+      return evaluate(node.operand, context) !== true;
+    case "and":
+      return evaluate(node.left, context) === true && evaluate(node.right, context) === true;
+    case "or":
+      return evaluate(node.left, context) === true || evaluate(node.right, context) === true;
+    case "compare":
+      return compare(node.operator, evaluate(node.left, context), evaluate(node.right, context));
+  }
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  if (left === undefined || right === undefined) return false;
+  switch (operator) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "in":
+      return Array.isArray(right) && right.includes(left);
+  }
+  const comparable = (typeof left === "number" && typeof right === "number") || (typeof left === "string" && typeof right === "string");
+  if (!comparable) return false;
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+}
+
+/**
+ * Resolves a dotted path through own properties only; anything unreachable is `undefined`.
+ */
+function lookup(context: PermissionContext | undefined, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
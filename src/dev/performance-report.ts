@@ -1,6 +1,6 @@
 #!/usr/bin/env bun
 
-import { PermissionTree } from "./src/index.js"
+import { PermissionTree, rule } from "../index.js"
 
 console.log("📊 Permission System Performance Report")
 console.log("=" .repeat(60))
@@ -33,33 +33,33 @@ function generatePermissions(count: number): string[] {
     // Create realistic permission patterns based on organizational needs
     if (i % 25 === 0) {
       // Organization-wide admin permissions
-      permissions.push(`${org}::***;;admin`)
+      permissions.push(rule().below(org).action("admin").build())
     } else if (i % 20 === 0) {
       // Regional admin permissions
-      permissions.push(`${org}::${region}::***;;admin`)
+      permissions.push(rule().below(org, region).action("admin").build())
     } else if (i % 15 === 0) {
       // Department-wide permissions
-      permissions.push(`${org}::${region}::${dept}::***;;manage`)
+      permissions.push(rule().below(org, region, dept).action("manage").build())
     } else if (i % 12 === 0) {
       // Team-level project access
-      permissions.push(`${org}::${region}::${dept}::${team}::${project}::***;;${action}`)
+      permissions.push(rule().below(org, region, dept, team, project).action(action).build())
     } else if (i % 10 === 0) {
       // Environment-specific wildcards
-      permissions.push(`${org}::${region}::${dept}::${team}::${project}::${env}::*;;${action}`)
+      permissions.push(rule().on(org, region, dept, team, project, env).any().action(action).build())
     } else if (i % 8 === 0) {
       // Cross-team collaboration permissions (common in real orgs)
       const otherTeam = teams[(teams.indexOf(team) + 1) % teams.length]
-      permissions.push(`${org}::${region}::${dept}::${otherTeam}::${project}::${env}::${resource};;view`)
+      permissions.push(rule().on(org, region, dept, otherTeam, project, env, resource).action("view").build())
     } else if (i % 6 === 0) {
       // Security restrictions (deny rules)
       if (env === "production" && (resource === "secrets" || resource === "databases")) {
-        permissions.push(`!${org}::${region}::${dept}::${team}::${project}::${env}::${resource};;delete`)
+        permissions.push(rule().deny().on(org, region, dept, team, project, env, resource).action("delete").build())
       } else {
-        permissions.push(`!${org}::${region}::${dept}::${team}::${project}::${env}::${resource};;${action}`)
+        permissions.push(rule().deny().on(org, region, dept, team, project, env, resource).action(action).build())
       }
     } else {
       // Specific granular permissions (most common)
-      permissions.push(`${org}::${region}::${dept}::${team}::${project}::${env}::${resource}::${resourceId};;${action}`)
+      permissions.push(rule().on(org, region, dept, team, project, env, resource, resourceId).action(action).build())
     }
   }
   
@@ -227,6 +227,38 @@ const tripleTime = performance.now() - tripleStart
 
 console.log(`   *** wildcard: ${(tripleTime / tripleQueries.length).toFixed(4)}ms avg, ${Math.floor(tripleQueries.length / (tripleTime / 1000)).toLocaleString()} checks/sec`)
 
+// Batch checks: filtering a list of resources sharing a prefix, one call per path vs one call per list
+console.log("\n📦 Batch Check Performance:")
+
+const batchTree = new PermissionTree([
+  ...generatePermissions(10000),
+  "acme-corp::us-east::engineering::backend::web-platform::posts::*;;read",
+  "!acme-corp::us-east::engineering::backend::web-platform::posts::*::drafts::***;;read",
+])
+for (const size of [100, 500, 2000]) {
+  const posts = Array.from({ length: size }, (_, i) => ({
+    path: `acme-corp::us-east::engineering::backend::web-platform::posts::${i}${i % 5 === 0 ? "::drafts::1" : ""}`,
+  }))
+  const rounds = 20
+  // Warm up both paths before timing
+  posts.filter(post => batchTree.isAllowed(post.path, "read"))
+  batchTree.filterAllowed(posts, post => post.path, "read")
+
+  const singleStart = performance.now()
+  for (let round = 0; round < rounds; round++) {
+    posts.filter(post => batchTree.isAllowed(post.path, "read"))
+  }
+  const singleTime = (performance.now() - singleStart) / rounds
+
+  const batchStart = performance.now()
+  for (let round = 0; round < rounds; round++) {
+    batchTree.filterAllowed(posts, post => post.path, "read")
+  }
+  const batchTime = (performance.now() - batchStart) / rounds
+
+  console.log(`   ${size.toString().padStart(5)} paths: isAllowed ${singleTime.toFixed(2).padStart(7)}ms, filterAllowed ${batchTime.toFixed(2).padStart(7)}ms (${(singleTime / batchTime).toFixed(1)}x)`)
+}
+
 console.log("\n✅ Performance testing complete!")
 console.log("   The system shows excellent performance characteristics:")
 console.log("   • Sub-millisecond permission checks even with 100K+ rules")
@@ -0,0 +1,74 @@
+import { partition } from "./partition";
+import { pathCovers } from "./region";
+import type { PermissionContext } from "./template";
+import type { PermissionTree } from "./tree";
+
+/**
+ * A region of requests whose decision changed.
+ */
+export interface AccessChange {
+  /** Path pattern of the region, e.g. `projects::*`. */
+  path: string;
+  /** The action, or a namespace glob or `*` standing for every action without a rule of its own. */
+  action: string;
+}
+
+/**
+ * The access that changed between two trees.
+ */
+export interface TreeDiff {
+  /** Regions allowed after the change but not before. */
+  granted: AccessChange[];
+  /** Regions allowed before the change but not after. */
+  revoked: AccessChange[];
+}
+
+/**
+ * Compares the access two trees grant.
+ *
+ * The requests are divided into regions: the rule paths of both trees and their intersections, each
+ * combined with every action the trees name. Each region is decided by a representative request, so a
+ * `*` region is reported when requests without a more specific rule changed. Regions inside a reported
+ * region that changed the same way are left out.
+ * Templates and conditions are evaluated against the given context; regions of a `/regex/` segment
+ * are only compared through the rules they intersect.
+ *
+ * @example
+ * ```ts
+ * const before = new PermissionTree(["projects::*;;read"])
+ * const after = new PermissionTree(["projects::*;;*", "!projects::prod;;delete"])
+ * diffTrees(before, after)
+ * // granted: [{ path: "projects::*", action: "*" }, { path: "projects::*", action: "delete" }], revoked: []
+ * ```
+ */
+export function diffTrees(before: PermissionTree, after: PermissionTree, context?: PermissionContext): TreeDiff {
+  const { regions, probes } = partition([before.toJSON(), after.toJSON()], context);
+  const granted: [string[], AccessChange][] = [];
+  const revoked: [string[], AccessChange][] = [];
+  for (const { segments, path, request } of regions) {
+    for (const [probe, action] of probes) {
+      const was = before.isAllowed(request, probe, context);
+      const is = after.isAllowed(request, probe, context);
+      if (was !== is) (is ? granted : revoked).push([segments, { path, action }]);
+    }
+  }
+  return { granted: outermost(granted), revoked: outermost(revoked) };
+}
+
+/**
+ * Drops changes inside another reported change for the same action, and sorts the rest.
+ */
+function outermost(changes: [string[], AccessChange][]): AccessChange[] {
+  return changes
+    .filter(([region, change], index) =>
+      !changes.some(([other, otherChange], otherIndex) =>
+        otherIndex !== index &&
+        otherChange.action === change.action &&
+        pathCovers(other, region) &&
+        // Of two regions covering each other, the first is kept
+        (otherIndex < index || !pathCovers(region, other))
+      )
+    )
+    .map(([, change]) => change)
+    .sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : a.action < b.action ? -1 : a.action > b.action ? 1 : 0);
+}
@@ -0,0 +1,57 @@
+import type { PermissionExplanation } from "./tree";
+
+/**
+ * Everything `explain` reports except the `reason` derived from it.
+ */
+export type ExplanationFacts = Omit<PermissionExplanation, "reason">;
+
+/**
+ * Writes the human-readable `reason` of an explanation, e.g. in another language.
+ */
+export type ReasonFormatter = (explanation: ExplanationFacts) => string;
+
+/**
+ * The default, English `reason` of an explanation.
+ *
+ * @example
+ * ```ts
+ * formatReason(tree.explain("users::123::posts", "read"))
+ * // "Access denied by exclusion rule(s): !users::123::posts;;read."
+ * ```
+ */
+export function formatReason(explanation: ExplanationFacts): string {
+  const { allowed, matchedAllowRules: allow, matchedDenyRules: deny, resolution } = explanation;
+  let reason: string;
+  if (allow.length > 0 && deny.length > 0 && resolution !== "deny-overrides") {
+    if (resolution === "allow-overrides") {
+      reason = `Access allowed by rule(s): ${allow.join(", ")}. Although exclusion rule(s) matched: ${deny.join(", ")}, allow rules take precedence.`;
+    } else {
+      const winner = explanation.trace.find(step => step.rule === explanation.decidingRule);
+      const priority = resolution === "priority" ? ` (priority ${winner?.priority ?? 0})` : "";
+      if (allowed) {
+        const comparison = resolution === "priority" ? "outranks" : "is more specific than";
+        reason = `Access allowed by rule: ${explanation.decidingRule}${priority}, which ${comparison} exclusion rule(s): ${deny.join(", ")}.`;
+      } else {
+        const comparison = resolution === "priority" ? "is not outranked by" : "is at least as specific as";
+        reason = `Access denied by exclusion rule: ${explanation.decidingRule}${priority}, which ${comparison} allow rule(s): ${allow.join(", ")}.`;
+      }
+    }
+    reason += ` Resolved by the "${resolution}" strategy.`;
+  } else if (deny.length > 0) {
+    reason = allow.length > 0
+      ? `Access denied by exclusion rule(s): ${deny.join(", ")}. Although allow rule(s) matched: ${allow.join(", ")}, deny rules take precedence.`
+      : `Access denied by exclusion rule(s): ${deny.join(", ")}.`;
+  } else if (allow.length > 0) {
+    reason = `Access allowed by rule(s): ${allow.join(", ")}.`;
+  } else {
+    reason = `Access denied: no matching allow rules found for resource "${explanation.resource}" and action "${explanation.action}".`;
+  }
+  if (explanation.missingVariables.length > 0) {
+    reason += ` Template variable(s) missing from the context: ${explanation.missingVariables.join(", ")}.`;
+  }
+  const failedConditions = explanation.conditions.filter(c => !c.passed);
+  if (failedConditions.length > 0) {
+    reason += ` Condition(s) not met: ${failedConditions.map(c => c.rule).join(", ")}.`;
+  }
+  return reason;
+}
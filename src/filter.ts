@@ -0,0 +1,277 @@
+import { isRegexSegment } from "./pattern";
+
+/**
+ * A neutral condition on one value, the segment below a path, built by `PermissionTree.toFilter`.
+ * - `any` / `none`: every value / no value
+ * - `in` / `notIn`: one of / none of the listed values
+ * - `prefix`: values starting with `value`
+ * - `and` / `or` / `not`: combinations of other filters
+ */
+export type AccessFilter =
+  | { op: "any" }
+  | { op: "none" }
+  | { op: "in"; values: string[] }
+  | { op: "notIn"; values: string[] }
+  | { op: "prefix"; value: string }
+  | { op: "and"; filters: AccessFilter[] }
+  | { op: "or"; filters: AccessFilter[] }
+  | { op: "not"; filter: AccessFilter };
+
+/**
+ * Thrown when permissions cannot be expressed as a filter.
+ */
+export class FilterError extends Error {
+  constructor(reason: string) {
+    super(`Cannot translate permissions into a filter: ${reason}`);
+    this.name = "FilterError";
+  }
+}
+
+/**
+ * A value no rule names, appended to a prefix to probe the values starting with it.
+ */
+const UNNAMED = "\u0000";
+
+/**
+ * Builds the filter allowing exactly the values `decide` allows.
+ *
+ * The values are divided into cells that every rule treats alike: each literal, and for each prefix the values
+ * starting with it but with no longer prefix and no literal. Each cell is decided once.
+ * @param literals Literal child segments the rules name.
+ * @param patterns Glob and `/regex/` child segments the rules name.
+ * @throws FilterError If a pattern is not a union of literals and prefixes, e.g. a `/regex/` or `user-?`.
+ */
+export function buildFilter(literals: Set<string>, patterns: Set<string>, decide: (value: string) => boolean): AccessFilter {
+  const named = new Set(literals);
+  const prefixes = new Set([""]);
+  for (const pattern of patterns) {
+    const alternatives = globAlternatives(pattern);
+    if (!alternatives) throw new FilterError(`segment "${pattern}" is neither a literal nor a prefix`);
+    for (const { value, prefix } of alternatives) (prefix ? prefixes : named).add(value);
+  }
+
+  const decisions = new Map([...prefixes].map(prefix => [prefix, decide(prefix + UNNAMED)]));
+  const longestPrefix = (value: string) => [...prefixes].filter(prefix => value.startsWith(prefix)).reduce((a, b) => (b.length > a.length ? b : a));
+  const children = (prefix: string) =>
+    [...prefixes].filter(other =>
+      other !== prefix && other.startsWith(prefix) && longestPrefix(other.slice(0, -1)) === prefix
+    ).sort();
+  const allowed = (prefix: string): AccessFilter => decisions.get(prefix)
+    ? and([prefixFilter(prefix), not(or(children(prefix).map(denied)))])
+    : or(children(prefix).map(allowed));
+  const denied = (prefix: string): AccessFilter => decisions.get(prefix)
+    ? or(children(prefix).map(denied))
+    : and([prefixFilter(prefix), not(or(children(prefix).map(allowed)))]);
+
+  // Literals only need listing where they are decided unlike the values around them
+  const extraAllowed: string[] = [];
+  const extraDenied: string[] = [];
+  for (const literal of [...named].sort()) {
+    const isAllowed = decide(literal);
+    if (isAllowed !== decisions.get(longestPrefix(literal))) (isAllowed ? extraAllowed : extraDenied).push(literal);
+  }
+  return or([inFilter(extraAllowed), and([not(inFilter(extraDenied)), allowed("")])]);
+}
+
+/**
+ * Whether a value passes a filter, e.g. to check records already in memory.
+ */
+export function matchesFilter(filter: AccessFilter, value: string): boolean {
+  switch (filter.op) {
+    case "any":
+      return true;
+    case "none":
+      return false;
+    case "in":
+      return filter.values.includes(value);
+    case "notIn":
+      return !filter.values.includes(value);
+    case "prefix":
+      return value.startsWith(filter.value);
+    case "and":
+      return filter.filters.every(inner => matchesFilter(inner, value));
+    case "or":
+      return filter.filters.some(inner => matchesFilter(inner, value));
+    case "not":
+      return !matchesFilter(filter.filter, value);
+  }
+}
+
+/**
+ * Options for `toSql`.
+ */
+export interface SqlOptions {
+  /**
+   * Writes the placeholder of the n-th bound parameter, counting from 1. Defaults to `?`; use
+   * `n => "$" + n` for PostgreSQL.
+   */
+  placeholder?: (position: number) => string;
+}
+
+/**
+ * Renders a filter as a SQL `WHERE` fragment with bound parameters.
+ * Prefixes become `LIKE` patterns with `!` escaping `%`, `_` and `!`, an escape character MySQL and PostgreSQL read alike.
+ * @param column Column holding the value, written into the SQL as-is; it must not come from user input.
+ *
+ * @example
+ * ```ts
+ * toSql(tree.toFilter("projects", "read"), "projects.slug")
+ * // { sql: "projects.slug NOT IN (?)", params: ["secret"] }
+ * ```
+ */
+export function toSql(filter: AccessFilter, column: string, options: SqlOptions = {}): { sql: string; params: string[] } {
+  const placeholder = options.placeholder ?? (() => "?");
+  const params: string[] = [];
+  const bind = (value: string) => {
+    params.push(value);
+    return placeholder(params.length);
+  };
+  const render = (filter: AccessFilter): string => {
+    switch (filter.op) {
+      case "any":
+        return "1 = 1";
+      case "none":
+        return "1 = 0";
+      case "in":
+        return `${column} IN (${filter.values.map(bind).join(", ")})`;
+      case "notIn":
+        return `${column} NOT IN (${filter.values.map(bind).join(", ")})`;
+      case "prefix":
+        return `${column} LIKE ${bind(filter.value.replace(/[!%_]/g, "!$&") + "%")} ESCAPE '!'`;
+      case "and":
+        return `(${filter.filters.map(render).join(" AND ")})`;
+      case "or":
+        return `(${filter.filters.map(render).join(" OR ")})`;
+      case "not":
+        return `NOT ${render(filter.filter)}`;
+    }
+  };
+  return { sql: render(filter), params };
+}
+
+/**
+ * Renders a filter as a MongoDB query object. Prefixes become anchored `$regex` conditions.
+ * @param field Document field holding the value.
+ *
+ * @example
+ * ```ts
+ * toMongoQuery(tree.toFilter("projects", "read"), "slug")
+ * // { slug: { $nin: ["secret"] } }
+ * ```
+ */
+export function toMongoQuery(filter: AccessFilter, field: string): Record<string, unknown> {
+  switch (filter.op) {
+    case "any":
+      return {};
+    case "none":
+      return { [field]: { $in: [] } };
+    case "in":
+      return { [field]: { $in: filter.values } };
+    case "notIn":
+      return { [field]: { $nin: filter.values } };
+    case "prefix":
+      return { [field]: { $regex: "^" + filter.value.replace(/[\\^$.*+?()[\]{}|/]/g, "\\$&") } };
+    case "and":
+      return { $and: filter.filters.map(inner => toMongoQuery(inner, field)) };
+    case "or":
+      return { $or: filter.filters.map(inner => toMongoQuery(inner, field)) };
+    case "not":
+      return { $nor: [toMongoQuery(filter.filter, field)] };
+  }
+}
+
+function inFilter(values: string[]): AccessFilter {
+  return values.length === 0 ? { op: "none" } : { op: "in", values };
+}
+
+function prefixFilter(value: string): AccessFilter {
+  return value === "" ? { op: "any" } : { op: "prefix", value };
+}
+
+/**
+ * Conjunction of filters, simplified: `any` members are dropped and nested conjunctions flattened.
+ */
+function and(filters: AccessFilter[]): AccessFilter {
+  const members = filters.flatMap(filter => (filter.op === "and" ? filter.filters : filter.op === "any" ? [] : [filter]));
+  if (members.some(filter => filter.op === "none")) return { op: "none" };
+  return members.length === 0 ? { op: "any" } : members.length === 1 ? members[0] : { op: "and", filters: members };
+}
+
+/**
+ * Disjunction of filters, simplified: `none` members are dropped and nested disjunctions flattened.
+ */
+function or(filters: AccessFilter[]): AccessFilter {
+  const members = filters.flatMap(filter => (filter.op === "or" ? filter.filters : filter.op === "none" ? [] : [filter]));
+  if (members.some(filter => filter.op === "any")) return { op: "any" };
+  return members.length === 0 ? { op: "none" } : members.length === 1 ? members[0] : { op: "or", filters: members };
+}
+
+function not(filter: AccessFilter): AccessFilter {
+  switch (filter.op) {
+    case "any":
+      return { op: "none" };
+    case "none":
+      return { op: "any" };
+    case "in":
+      return { op: "notIn", values: filter.values };
+    case "notIn":
+      return { op: "in", values: filter.values };
+    case "not":
+      return filter.filter;
+    default:
+      return { op: "not", filter };
+  }
+}
+
+/**
+ * The values a glob matches as literals and prefixes, e.g. `{staging,dev}-*` as the prefixes `staging-` and
+ * `dev-`, or undefined for a `/regex/`, a `?` or a `*` before the end.
+ */
+function globAlternatives(glob: string): { value: string; prefix: boolean }[] | undefined {
+  if (isRegexSegment(glob)) return undefined;
+  const alternatives: { value: string; prefix: boolean }[] = [];
+  for (const expansion of expandBraces(glob)) {
+    let value = "";
+    let prefix = false;
+    for (let i = 0; i < expansion.length; i++) {
+      const char = expansion[i];
+      if (char === "\\") {
+        value += expansion[++i] ?? "";
+      } else if (char === "?" || (char === "*" && i !== expansion.length - 1)) {
+        return undefined;
+      } else if (char === "*") {
+        prefix = true;
+      } else {
+        value += char;
+      }
+    }
+    alternatives.push({ value, prefix });
+  }
+  return alternatives;
+}
+
+/**
+ * Expands the `{a,b}` alternatives of a glob, keeping escapes for the caller.
+ */
+function expandBraces(glob: string): string[] {
+  let expansions = [""];
+  let alternatives: string[] | undefined;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    const text = char === "\\" ? char + (glob[++i] ?? "") : char;
+    if (char === "{" && !alternatives) {
+      alternatives = [""];
+    } else if (char === "," && alternatives) {
+      alternatives.push("");
+    } else if (char === "}" && alternatives) {
+      const options = alternatives;
+      expansions = expansions.flatMap(expansion => options.map(option => expansion + option));
+      alternatives = undefined;
+    } else if (alternatives) {
+      alternatives[alternatives.length - 1] += text;
+    } else {
+      expansions = expansions.map(expansion => expansion + text);
+    }
+  }
+  return expansions;
+}
@@ -0,0 +1,151 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { CompiledPermissionTree } from "./compiled";
+import { indexOfUnescaped, resolveSeparators, splitPath, unescapeSegment, type Separators } from "./path";
+import { resolveVariable, type PermissionContext } from "./template";
+import type { PermissionExplanation, PermissionTree } from "./tree";
+
+/**
+ * Thrown by guarded functions when the current subject may not call them.
+ */
+export class AccessDeniedError extends Error {
+  constructor(readonly explanation: PermissionExplanation) {
+    super(`Access denied to "${explanation.resource}" for action "${explanation.action}": ${explanation.reason}`);
+    this.name = "AccessDeniedError";
+  }
+}
+
+/**
+ * The permissions guards check, as set by `runWithPermissions`.
+ */
+export interface PermissionScope {
+  tree: PermissionTree | CompiledPermissionTree;
+  /** Values for `${...}` rule templates and `??` rule conditions. */
+  context?: PermissionContext;
+}
+
+/**
+ * A permission a guard requires, e.g. `projects::${args.id};;write`, where `args` is the call's parameter object when
+ * it is called with a single plain object and its array of arguments otherwise (`${args.0}`). Placeholders can also
+ * name values of the scope's context. A function receives the arguments and returns the permission.
+ */
+export type RequiredPermission<TArgs extends unknown[] = unknown[]> = string | ((...args: TArgs) => string);
+
+/**
+ * Options for `guard` and `RequirePermission`.
+ */
+export interface GuardOptions {
+  /** Separators the required permission is written with. Defaults to `::` and `;;`. */
+  separators?: Partial<Separators>;
+}
+
+const storage = new AsyncLocalStorage<PermissionScope>();
+
+const PLACEHOLDER = /\$\{([^}]*)\}/g;
+
+/**
+ * Runs a callback with permissions that guards called from it, synchronously or asynchronously, check.
+ *
+ * @example
+ * ```ts
+ * app.use((req, res, next) => runWithPermissions({ tree: treeFor(req.user), context: { user: req.user } }, next))
+ * ```
+ */
+export function runWithPermissions<T>(scope: PermissionScope, callback: () => T): T {
+  return storage.run(scope, callback);
+}
+
+/**
+ * The permissions of the current call, or undefined outside `runWithPermissions`.
+ */
+export function currentPermissions(): PermissionScope | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Wraps a function so that it checks the current permissions before every call.
+ * The check throws synchronously, before the function runs, even when the function is async.
+ * @throws AccessDeniedError From the wrapper, if the permission is not granted.
+ * @throws Error From the wrapper, if it is called outside `runWithPermissions`.
+ * @throws TypeError If the permission names no action, or from the wrapper, if a placeholder of the permission
+ * cannot be resolved.
+ *
+ * @example
+ * ```ts
+ * const updateProject = guard(async (args: { id: string; name: string }) => db.update(args), "projects::${args.id};;write")
+ * ```
+ */
+export function guard<TArgs extends unknown[], TResult, TThis = unknown>(
+  fn: (this: TThis, ...args: TArgs) => TResult,
+  permission: RequiredPermission<TArgs>,
+  options: GuardOptions = {}
+): (this: TThis, ...args: TArgs) => TResult {
+  const separators = resolveSeparators(options.separators);
+  if (typeof permission === "string") requireAction(permission, separators);
+  return function (this: TThis, ...args: TArgs): TResult {
+    checkPermission(typeof permission === "string" ? permission : permission.apply(this, args), args, separators);
+    return fn.apply(this, args);
+  };
+}
+
+/**
+ * Method decorator checking the current permissions before every call, as `guard` does. Works with standard
+ * decorators and with TypeScript's `experimentalDecorators`.
+ *
+ * @example
+ * ```ts
+ * class ProjectService {
+ *   @RequirePermission("projects::${args.id};;write")
+ *   async rename(args: { id: string; name: string }) { ... }
+ * }
+ * ```
+ */
+export function RequirePermission<TArgs extends unknown[]>(permission: RequiredPermission<TArgs>, options?: GuardOptions) {
+  function decorate<This, Args extends TArgs, Return>(
+    method: (this: This, ...args: Args) => Return,
+    context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Return>
+  ): (this: This, ...args: Args) => Return;
+  function decorate(target: object, key: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+  function decorate(method: unknown, _context: unknown, descriptor?: PropertyDescriptor): unknown {
+    if (descriptor) return { ...descriptor, value: guard(descriptor.value, permission, options) };
+    return guard(method as (...args: TArgs) => unknown, permission, options);
+  }
+  return decorate;
+}
+
+/**
+ * Fills in the placeholders of a permission and checks it against the current scope.
+ */
+function checkPermission(permission: string, args: unknown[], separators: Separators): void {
+  const scope = storage.getStore();
+  if (!scope) throw new Error(`No permissions to check "${permission}" against: call guarded functions within runWithPermissions`);
+
+  const onlyArg = args.length === 1 ? args[0] : undefined;
+  const values = {
+    ...scope.context,
+    args: onlyArg !== null && typeof onlyArg === "object" && !Array.isArray(onlyArg) ? onlyArg : args
+  };
+  const bind = (text: string) =>
+    text.replace(PLACEHOLDER, (placeholder, variable: string) => {
+      const value = resolveVariable(values, variable);
+      if (value === undefined) throw new TypeError(`Cannot resolve ${placeholder} in required permission "${permission}"`);
+      return value;
+    });
+
+  // Split before binding, so that a value cannot reach another resource, e.g. an id of `1::secrets` or `x:`
+  const split = requireAction(permission, separators);
+  const segments = splitPath(permission.slice(0, split), separators).map(bind);
+  const action = bind(unescapeSegment(permission.slice(split + separators.action.length), separators));
+  if (!scope.tree.isAllowed(segments, action, scope.context)) {
+    throw new AccessDeniedError(scope.tree.explain(segments, action, scope.context));
+  }
+}
+
+/**
+ * Index of the action separator of a required permission.
+ * @throws TypeError If there is none.
+ */
+function requireAction(permission: string, separators: Separators): number {
+  const split = indexOfUnescaped(permission, separators.action);
+  if (split === -1) throw new TypeError(`Required permission "${permission}" names no action`);
+  return split;
+}
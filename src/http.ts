@@ -0,0 +1,172 @@
+import type { CompiledPermissionTree } from "./compiled";
+import { resolveSeparators, splitPath, type ResourcePathLike, type Separators } from "./path";
+import type { PermissionContext } from "./template";
+import type { PermissionTree } from "./tree";
+
+/**
+ * What the middleware reads from a request: a fetch `Request`, or e.g. an Express or Fastify request, whose
+ * `url` may be a bare path.
+ */
+export interface HttpRequestLike {
+  method: string;
+  url: string;
+}
+
+/**
+ * A guarded route and the resource it stands for.
+ */
+export interface RouteMapping {
+  /** URL path pattern with `:name` parameters, e.g. `/projects/:id/posts/:postId`. */
+  route: string;
+  /**
+   * Resource checked for the route, in the tree's syntax with `${name}` standing for a whole segment taken from a
+   * parameter, e.g. `projects::${id}::posts::${postId}`. Defaults to the route's segments with parameters filled in.
+   */
+  resource?: string;
+  /** Methods the route applies to, e.g. `["GET", "POST"]`; every method by default. */
+  methods?: string[];
+  /** Action checked instead of the one mapped from the method. */
+  action?: string;
+}
+
+/**
+ * Options for `createAccessMiddleware`.
+ */
+export interface AccessMiddlewareOptions<TRequest extends HttpRequestLike = Request> {
+  /** Guarded routes, tried in order; the first match decides. */
+  routes: RouteMapping[];
+  /** Resolves the permissions of the request's user. */
+  loadTree(request: TRequest): PermissionTree | CompiledPermissionTree | Promise<PermissionTree | CompiledPermissionTree>;
+  /** Values for `${...}` rule templates and `??` rule conditions. */
+  context?(request: TRequest, params: Record<string, string>): PermissionContext | Promise<PermissionContext>;
+  /** Actions by upper-case HTTP method, merged over `DEFAULT_METHOD_ACTIONS`. */
+  actions?: Record<string, string>;
+  /** Whether requests matching no route are let through (`"allow"`) or refused (`"deny"`). Defaults to `"deny"`. */
+  unmatched?: "allow" | "deny";
+  /** Add the `explain()` payload to 403 responses. Never enable it in production, as it discloses rules. */
+  debug?: boolean;
+  /** Separators of the `resource` strings; they must match the trees'. Defaults to `::` and `;;`. */
+  separators?: Partial<Separators>;
+}
+
+/**
+ * Checks a request, resolving to a 403 `Response` when access is denied and to undefined when the request may
+ * continue.
+ */
+export type AccessMiddleware<TRequest extends HttpRequestLike = Request> = (request: TRequest) => Promise<Response | undefined>;
+
+/**
+ * The action checked for each HTTP method unless overridden.
+ */
+export const DEFAULT_METHOD_ACTIONS: Readonly<Record<string, string>> = Object.freeze({
+  GET: "read",
+  HEAD: "read",
+  OPTIONS: "read",
+  POST: "create",
+  PUT: "update",
+  PATCH: "update",
+  DELETE: "delete"
+});
+
+/**
+ * Creates a framework-agnostic middleware mapping requests to `tree.isAllowed` checks.
+ * A request whose method has no action, or that matches no route while `unmatched` is `"deny"`, is refused.
+ * @throws TypeError If a `resource` names a parameter its route lacks, or the separators are invalid.
+ *
+ * @example
+ * ```ts
+ * const guard = createAccessMiddleware({
+ *   routes: [{ route: "/projects/:id/posts/:postId" }], // checks projects::<id>::posts::<postId>
+ *   loadTree: request => treeFor(request.headers.get("authorization")),
+ * })
+ * const denied = await guard(request)
+ * if (denied) return denied
+ * ```
+ */
+export function createAccessMiddleware<TRequest extends HttpRequestLike = Request>(
+  options: AccessMiddlewareOptions<TRequest>
+): AccessMiddleware<TRequest> {
+  const separators = resolveSeparators(options.separators);
+  const actions: Record<string, string> = { ...DEFAULT_METHOD_ACTIONS, ...options.actions };
+  const routes = options.routes.map(mapping => {
+    const pattern = routeSegments(mapping.route);
+    const resource = mapping.resource === undefined ? undefined : splitPath(mapping.resource, separators);
+    for (const segment of resource ?? []) {
+      const name = placeholderName(segment);
+      if (name !== undefined && !pattern.includes(":" + name)) {
+        throw new TypeError(`Route "${mapping.route}" has no parameter "${name}" for resource "${mapping.resource}"`);
+      }
+    }
+    return { mapping, pattern, resource, methods: mapping.methods?.map(method => method.toUpperCase()) };
+  });
+
+  return async request => {
+    const method = request.method.toUpperCase();
+    const segments = requestSegments(request.url);
+    for (const route of routes) {
+      if (route.methods && !route.methods.includes(method)) continue;
+      const params = segments && matchRoute(route.pattern, segments);
+      if (!params) continue;
+      const action = route.mapping.action ?? actions[method];
+      if (action === undefined) return forbidden(options.debug ? { reason: `No action is mapped to method ${method}.` } : {});
+      const resource: ResourcePathLike = route.resource
+        ? route.resource.map(segment => {
+          const name = placeholderName(segment);
+          return name === undefined ? segment : params[name];
+        })
+        : route.pattern.map(segment => (segment.startsWith(":") ? params[segment.slice(1)] : segment));
+
+      const tree = await options.loadTree(request);
+      const context = await options.context?.(request, params);
+      if (tree.isAllowed(resource, action, context)) return undefined;
+      return forbidden(options.debug ? { explanation: tree.explain(resource, action, context) } : {});
+    }
+    if (options.unmatched === "allow") return undefined;
+    return forbidden(options.debug ? { reason: `No route matches ${method} ${request.url}.` } : {});
+  };
+}
+
+function forbidden(details: Record<string, unknown>): Response {
+  return new Response(JSON.stringify({ error: "Forbidden", ...details }), {
+    status: 403,
+    headers: { "content-type": "application/json" }
+  });
+}
+
+function routeSegments(path: string): string[] {
+  return path.split("/").filter(segment => segment !== "");
+}
+
+/**
+ * The decoded path segments of a request URL, or undefined if they are not valid percent-encoding.
+ */
+function requestSegments(url: string): string[] | undefined {
+  try {
+    return routeSegments(new URL(url, "http://localhost").pathname).map(decodeURIComponent);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The parameters of a route matching the given path segments, or undefined.
+ */
+function matchRoute(pattern: readonly string[], segments: readonly string[]): Record<string, string> | undefined {
+  if (pattern.length !== segments.length) return undefined;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(":")) {
+      params[pattern[i].slice(1)] = segments[i];
+    } else if (pattern[i] !== segments[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+/**
+ * The parameter a resource segment written `${name}` stands for.
+ */
+function placeholderName(segment: string): string | undefined {
+  return /^\$\{(\w+)\}$/.exec(segment)?.[1];
+}
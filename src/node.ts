@@ -0,0 +1,676 @@
+import type { ActionMatcher } from "./action";
+import { evaluateCondition, formatCondition, type ConditionExpression } from "./condition";
+import { DEFAULT_SEPARATORS, formatRule, type Separators } from "./path";
+import { compilePattern, isPattern, PatternSyntaxError, type SegmentPattern } from "./pattern";
+import { compileTemplate, isTemplate, type PermissionContext, type SegmentTemplate } from "./template";
+import type { SerializedGrant, SerializedNode } from "./serialize";
+import type { MatchResult, RuleTrace } from "./tree";
+
+/**
+ * The parts of a rule besides its path and action.
+ */
+export interface GrantSpec {
+  condition?: ConditionExpression;
+  /** Rule priority for the `priority` resolution strategy; defaults to 0. */
+  priority?: number;
+}
+
+/**
+ * Insertions of one action at a node that share the same condition and priority.
+ */
+interface RuleGrant extends GrantSpec {
+  count: number;
+}
+
+/**
+ * A rule as stored in the tree, with the number of times it was inserted.
+ */
+export interface StoredRule extends GrantSpec {
+  segments: string[];
+  action: string;
+  count: number;
+}
+
+/**
+ * Where the rules covering a requested action stand against a path, for `PermissionNode.trace`.
+ */
+export interface TraceTarget {
+  segments: readonly string[];
+  actions: ActionMatcher;
+  context?: PermissionContext;
+  separators: Separators;
+  effect: RuleTrace["effect"];
+  /** Steps by reported rule; a rule reached along several routes keeps its best outcome. */
+  steps: Map<string, RuleTrace>;
+}
+
+/**
+ * Represents a node in the permission tree.
+ * Used internally to organize segments and actions.
+ */
+export class PermissionNode {
+  children: Map<string, PermissionNode> = new Map();
+  /** Grants per action at this node, keyed by their rule suffix (`""` when unconditional with default priority). */
+  actions: Map<string, Map<string, RuleGrant>> = new Map();
+  /** Compiled `${...}` children, keyed like `children`; bound against the context when matching. */
+  templates: Map<string, SegmentTemplate> = new Map();
+  /**
+   * Compiled glob and `/regex/` children, keyed like `children`.
+   * Kept apart so literal lookups stay a single `Map` hit and only these are scanned.
+   */
+  patterns: Map<string, SegmentPattern> = new Map();
+
+  /**
+   * Insert a new permission path and associated action.
+   */
+  insert(segments: string[], action: string, spec: GrantSpec = {}): void {
+    if (segments.length === 0) {
+      const grants = this.actions.get(action) ?? new Map<string, RuleGrant>();
+      const key = grantKey(spec);
+      const grant = grants.get(key);
+      if (grant) {
+        grant.count++;
+      } else {
+        grants.set(key, { count: 1, condition: spec.condition, priority: spec.priority || undefined });
+      }
+      this.actions.set(action, grants);
+      return;
+    }
+    const [head, ...rest] = segments;
+    if (!this.children.has(head)) {
+      this.attach(head, new PermissionNode());
+    }
+    this.children.get(head)!.insert(rest, action, spec);
+  }
+
+  /**
+   * Adds a child node, indexing template and pattern segments.
+   */
+  private attach(segment: string, child: PermissionNode): void {
+    this.children.set(segment, child);
+    if (isTemplate(segment)) {
+      this.templates.set(segment, compileTemplate(segment));
+    } else if (isPattern(segment)) {
+      this.indexPattern(segment);
+    }
+  }
+
+  /**
+   * Remove one insertion of a permission path and action, pruning branches left empty.
+   * @returns True if the rule was present.
+   */
+  remove(segments: string[], action: string, spec: GrantSpec = {}): boolean {
+    if (segments.length === 0) {
+      const grants = this.actions.get(action);
+      const key = grantKey(spec);
+      const grant = grants?.get(key);
+      if (!grant) return false;
+      if (grant.count > 1) {
+        grant.count--;
+      } else {
+        grants!.delete(key);
+        if (grants!.size === 0) this.actions.delete(action);
+      }
+      return true;
+    }
+    const [head, ...rest] = segments;
+    const child = this.children.get(head);
+    if (!child || !child.remove(rest, action, spec)) return false;
+    if (child.isEmpty()) {
+      this.children.delete(head);
+      this.templates.delete(head);
+      this.patterns.delete(head);
+    }
+    return true;
+  }
+
+  /**
+   * Checks whether exactly this path and action were inserted (no wildcard matching).
+   */
+  has(segments: string[], action: string, spec: GrantSpec = {}): boolean {
+    let node: PermissionNode | undefined = this;
+    for (const segment of segments) {
+      node = node.children.get(segment);
+      if (!node) return false;
+    }
+    return node.actions.get(action)?.has(grantKey(spec)) ?? false;
+  }
+
+  /**
+   * Registers a pattern child. A malformed pattern (only possible outside strict mode) stays a literal.
+   */
+  private indexPattern(segment: string): void {
+    try {
+      this.patterns.set(segment, compilePattern(segment));
+    } catch (error) {
+      if (!(error instanceof PatternSyntaxError)) throw error;
+    }
+  }
+
+  /**
+   * The literal child for a path segment.
+   * Template and pattern children are skipped so e.g. an unbound `${...}` in a request path cannot match them.
+   */
+  private exactChild(segment: string): PermissionNode | undefined {
+    return this.templates.has(segment) || this.patterns.has(segment) ? undefined : this.children.get(segment);
+  }
+
+  /**
+   * Actions stored at this node that cover the requested action, `*` first.
+   */
+  private coveringActions(actions: ActionMatcher): string[] {
+    const keys = this.actions.has("*") ? ["*"] : [];
+    for (const key of this.actions.keys()) {
+      if (key !== "*" && actions.covers(key)) keys.push(key);
+    }
+    return keys;
+  }
+
+  /**
+   * Whether a grant covering the requested action at this node applies in the context.
+   */
+  private grants(actions: ActionMatcher, context?: PermissionContext): boolean {
+    for (const key of this.actions.keys()) {
+      if (actions.covers(key) && grantApplies(this.actions.get(key)!, context)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Match results for the grants covering the requested action at this node.
+   * Conditional grants whose condition fails are reported with `matched: false`.
+   * @param separators Separators the matched rules are written with.
+   */
+  private grantResults(path: string[], actions: ActionMatcher, context: PermissionContext | undefined, separators: Separators): MatchResult[] {
+    const results: MatchResult[] = [];
+    for (const key of this.coveringActions(actions)) {
+      for (const [suffix, grant] of this.actions.get(key)!) {
+        const result: MatchResult = {
+          matched: true,
+          matchedRule: formatRule(path, key, separators) + suffix,
+          matchedSegments: [...path],
+          matchedAction: key
+        };
+        if (grant.priority !== undefined) {
+          result.priority = grant.priority;
+        }
+        if (grant.condition) {
+          result.condition = formatCondition(grant.condition);
+          result.conditionPassed = result.matched = evaluateCondition(grant.condition, context);
+        }
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Collects the rules stored under this node, once each.
+   * @param path Segments leading to this node.
+   */
+  collectRules(path: string[] = [], rules: StoredRule[] = []): StoredRule[] {
+    for (const [action, grants] of this.actions) {
+      for (const { count, condition, priority } of grants.values()) {
+        rules.push({ segments: path, action, count, condition, priority });
+      }
+    }
+    for (const [segment, child] of this.children) {
+      child.collectRules([...path, segment], rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Serializes this node and its descendants, in insertion order.
+   */
+  toJSON(): SerializedNode {
+    const json: SerializedNode = {};
+    if (this.children.size > 0) {
+      json.children = [...this.children].map(([segment, child]) => [segment, child.toJSON()]);
+    }
+    if (this.actions.size > 0) {
+      json.actions = [...this.actions].map(([action, grants]) => [
+        action,
+        [...grants.values()].map(({ count, condition, priority }) => {
+          const grant: SerializedGrant = { count };
+          if (condition) grant.condition = condition;
+          if (priority !== undefined) grant.priority = priority;
+          return grant;
+        }),
+      ]);
+    }
+    return json;
+  }
+
+  /**
+   * Restores a node serialized by `toJSON`, recompiling template and pattern segments.
+   */
+  static fromJSON(json: SerializedNode): PermissionNode {
+    const node = new PermissionNode();
+    for (const [segment, child] of json.children ?? []) {
+      node.attach(segment, PermissionNode.fromJSON(child));
+    }
+    for (const [action, grants] of json.actions ?? []) {
+      node.actions.set(action, new Map(grants.map(grant => [grantKey(grant), { ...grant }])));
+    }
+    return node;
+  }
+
+  /**
+   * Whether this node holds no actions and no children.
+   */
+  isEmpty(): boolean {
+    return this.actions.size === 0 && this.children.size === 0;
+  }
+
+  /**
+   * Checks if the given path and action are matched, returning on the first matching grant.
+   * Template children only match when every variable resolves in the context.
+   * Multi-segment wildcards (`**`, `***`) may appear anywhere in a rule and are matched with backtracking.
+   * The walk is iterative over positions into `segments`, so a check allocates no per-level arrays.
+   * @param actions Decides which rule actions apply to the requested action.
+   */
+  match(segments: readonly string[], actions: ActionMatcher, context?: PermissionContext): boolean {
+    // Pending (node, position) pairs, kept in two parallel stacks
+    const nodes: PermissionNode[] = [this];
+    const positions: number[] = [0];
+    while (nodes.length > 0) {
+      const node = nodes.pop()!;
+      const position = positions.pop()!;
+      const remaining = segments.length - position;
+
+      // Queue every number of segments a ** or *** child can consume
+      for (let g = 0; g < GLOBSTARS.length; g++) {
+        const globstarNode = node.children.get(GLOBSTARS[g][0]);
+        const minimum = GLOBSTARS[g][1];
+        if (!globstarNode || remaining < minimum) continue;
+        if (globstarNode.children.size === 0) {
+          nodes.push(globstarNode);
+          positions.push(segments.length);
+          continue;
+        }
+        for (let consumed = minimum; consumed <= remaining; consumed++) {
+          nodes.push(globstarNode);
+          positions.push(position + consumed);
+        }
+      }
+
+      if (remaining === 0) {
+        if (node.grants(actions, context)) return true;
+        continue;
+      }
+
+      const head = segments[position];
+      if (node.patterns.size > 0) {
+        for (const [key, pattern] of node.patterns) {
+          if (pattern.test(head)) {
+            nodes.push(node.children.get(key)!);
+            positions.push(position + 1);
+          }
+        }
+      }
+      if (node.templates.size > 0) {
+        for (const [key, template] of node.templates) {
+          if (template.bind(context) === head) {
+            nodes.push(node.children.get(key)!);
+            positions.push(position + 1);
+          }
+        }
+      }
+      const wildcardNode = node.children.get("*");
+      if (wildcardNode) {
+        nodes.push(wildcardNode);
+        positions.push(position + 1);
+      }
+      // Pushed last so the literal branch, the likeliest match, is tried first
+      const exactNode = node.exactChild(head);
+      if (exactNode) {
+        nodes.push(exactNode);
+        positions.push(position + 1);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Batch form of `match`, setting `results[index]` for every pending path that matches.
+   * Pending paths are grouped by their next segment, so each node is visited once for all the paths sharing
+   * a prefix, and positions into the split paths replace copies of their remaining segments.
+   * @param paths Request paths split into segments.
+   * @param pending Indexes of undecided paths, each with the position of its next segment.
+   */
+  matchMany(
+    paths: readonly (readonly string[])[],
+    pending: [index: number, position: number][],
+    actions: ActionMatcher,
+    context: PermissionContext | undefined,
+    results: boolean[]
+  ): void {
+    for (const [key, minimum] of GLOBSTARS) {
+      const globstarNode = this.children.get(key);
+      if (!globstarNode) continue;
+      const next: [number, number][] = [];
+      for (const [index, position] of pending) {
+        if (results[index]) continue;
+        for (const consumed of consumptions(globstarNode, minimum, paths[index].length - position)) {
+          next.push([index, position + consumed]);
+        }
+      }
+      if (next.length > 0) globstarNode.matchMany(paths, next, actions, context, results);
+    }
+
+    const wildcardNode = this.children.get("*");
+    const advanced: [number, number][] = [];
+    const groups = new Map<string, [number, number][]>();
+    const ended: number[] = [];
+    for (const [index, position] of pending) {
+      if (results[index]) continue;
+      const segments = paths[index];
+      if (position === segments.length) {
+        ended.push(index);
+        continue;
+      }
+      const entry: [number, number] = [index, position + 1];
+      if (wildcardNode) advanced.push(entry);
+      const group = groups.get(segments[position]);
+      if (group) {
+        group.push(entry);
+      } else {
+        groups.set(segments[position], [entry]);
+      }
+    }
+    if (ended.length > 0 && this.grants(actions, context)) {
+      for (const index of ended) results[index] = true;
+    }
+    if (groups.size === 0) return;
+
+    const bound = this.templates.size > 0
+      ? [...this.templates].map(([key, template]) => [key, template.bind(context)] as const)
+      : [];
+    for (const [head, group] of groups) {
+      this.exactChild(head)?.matchMany(paths, group, actions, context, results);
+      for (const [key, value] of bound) {
+        if (value === head) this.children.get(key)!.matchMany(paths, group, actions, context, results);
+      }
+      for (const [key, pattern] of this.patterns) {
+        if (pattern.test(head)) this.children.get(key)!.matchMany(paths, group, actions, context, results);
+      }
+    }
+    wildcardNode?.matchMany(paths, advanced, actions, context, results);
+  }
+
+  /**
+   * Children matching a single request segment: literal, `*`, bound template and pattern children.
+   */
+  private successors(head: string, context?: PermissionContext): PermissionNode[] {
+    const nextNodes = [this.exactChild(head), this.children.get("*")].filter(Boolean) as PermissionNode[];
+    for (const [key, template] of this.templates) {
+      if (template.bind(context) === head) {
+        nextNodes.push(this.children.get(key)!);
+      }
+    }
+    for (const [key, pattern] of this.patterns) {
+      if (pattern.test(head)) {
+        nextNodes.push(this.children.get(key)!);
+      }
+    }
+    return nextNodes;
+  }
+
+  /**
+   * Collects the segments rules name directly below a path: literal children of every node the path reaches,
+   * and template children bound against the context. Wildcard children are skipped.
+   * @param patterns Receives glob and `/regex/` children when given; they are skipped otherwise.
+   */
+  collectChildSegments(
+    segments: readonly string[],
+    context: PermissionContext | undefined,
+    found: Set<string>,
+    patterns?: Set<string>
+  ): void {
+    for (const [key, minimum] of GLOBSTARS) {
+      const globstarNode = this.children.get(key);
+      if (!globstarNode) continue;
+      for (const consumed of consumptions(globstarNode, minimum, segments.length)) {
+        globstarNode.collectChildSegments(segments.slice(consumed), context, found, patterns);
+      }
+    }
+
+    if (segments.length === 0) {
+      for (const segment of this.children.keys()) {
+        const template = this.templates.get(segment);
+        if (template) {
+          const bound = template.bind(context);
+          if (bound !== undefined) found.add(bound);
+        } else if (this.patterns.has(segment)) {
+          patterns?.add(segment);
+        } else if (this.exactChild(segment) && segment !== "*" && !GLOBSTARS.some(([key]) => key === segment)) {
+          found.add(segment);
+        }
+      }
+      return;
+    }
+
+    const [head, ...rest] = segments;
+    for (const node of this.successors(head, context)) {
+      node.collectChildSegments(rest, context, found, patterns);
+    }
+  }
+
+  /**
+   * Collects the members of every action stored under this node, e.g. `read` and `write` for `read,write`.
+   */
+  collectActions(found: Set<string>): void {
+    for (const action of this.actions.keys()) {
+      for (const member of action.split(",")) found.add(member);
+    }
+    for (const child of this.children.values()) {
+      child.collectActions(found);
+    }
+  }
+
+  /**
+   * Recursively checks if the given path and action are matched, returning detailed match information.
+   * @param missing Receives template variables that could not be resolved along the way.
+   * @param position Index of the next segment to match.
+   * @param separators Separators the matched rules are written with.
+   */
+  matchWithDetails(
+    segments: readonly string[],
+    actions: ActionMatcher,
+    currentPath: string[] = [],
+    context?: PermissionContext,
+    missing?: Set<string>,
+    position = 0,
+    separators: Separators = DEFAULT_SEPARATORS
+  ): MatchResult[] {
+    const results: MatchResult[] = [];
+
+    // Check for ** and *** wildcards, backtracking over every number of segments they can consume
+    for (const [key, minimum] of GLOBSTARS) {
+      const globstarNode = this.children.get(key);
+      if (!globstarNode) continue;
+      const seen = new Set<string>();
+      for (const consumed of consumptions(globstarNode, minimum, segments.length - position)) {
+        const globstarResults = globstarNode.matchWithDetails(segments, actions, [...currentPath, key], context, missing, position + consumed, separators);
+        // Different splits of the path can reach the same rule; report it once
+        for (const result of globstarResults) {
+          if (seen.has(result.matchedRule!)) continue;
+          seen.add(result.matchedRule!);
+          results.push(result);
+        }
+      }
+    }
+
+    if (position === segments.length) {
+      return [...results, ...this.grantResults(currentPath, actions, context, separators)];
+    }
+
+    const head = segments[position];
+    const next = position + 1;
+    
+    // Check exact match
+    const exactNode = this.exactChild(head);
+    if (exactNode) {
+      const exactResults = exactNode.matchWithDetails(segments, actions, [...currentPath, head], context, missing, next, separators);
+      results.push(...exactResults);
+    }
+    
+    // Check wildcard match
+    const wildcardNode = this.children.get("*");
+    if (wildcardNode) {
+      const wildcardResults = wildcardNode.matchWithDetails(segments, actions, [...currentPath, "*"], context, missing, next, separators);
+      results.push(...wildcardResults);
+    }
+
+    // Check template matches, reported with their unbound segment
+    for (const [key, template] of this.templates) {
+      if (template.bind(context, missing) === head) {
+        const templateResults = this.children.get(key)!.matchWithDetails(segments, actions, [...currentPath, key], context, missing, next, separators);
+        results.push(...templateResults);
+      }
+    }
+
+    // Check pattern matches, reported with the pattern itself
+    for (const [key, pattern] of this.patterns) {
+      if (pattern.test(head)) {
+        const patternResults = this.children.get(key)!.matchWithDetails(segments, actions, [...currentPath, key], context, missing, next, separators);
+        results.push(...patternResults);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Walks the path like `matchWithDetails`, recording every rule covering the requested action that the walk
+   * reached: whether it matched, or the index of the request segment where it diverged. Rules are reached at
+   * the nodes the walk visits, and behind a template, pattern or multi-segment wildcard that was tried and
+   * failed; literal children are looked up rather than tried, so their rules are only reached when they match.
+   * @param path Segments of the rules leading to this node.
+   * @param wildcards Wildcard segments among them.
+   * @param position Index of the next segment to match.
+   */
+  trace(target: TraceTarget, path: string[] = [], wildcards: string[] = [], position = 0): void {
+    const { segments } = target;
+    for (const [key, minimum] of GLOBSTARS) {
+      const globstarNode = this.children.get(key);
+      if (!globstarNode) continue;
+      const counts = consumptions(globstarNode, minimum, segments.length - position);
+      if (counts.length === 0) globstarNode.traceDivergence(target, [...path, key], wildcards, position);
+      for (const consumed of counts) {
+        globstarNode.trace(target, [...path, key], [...wildcards, key], position + consumed);
+      }
+    }
+
+    for (const [key, grants] of this.actions) {
+      if (!target.actions.covers(key)) continue;
+      for (const [suffix, grant] of grants) {
+        const step: RuleTrace = {
+          rule: (target.effect === "deny" ? "!" : "") + formatRule(path, key, target.separators) + suffix,
+          effect: target.effect,
+          matched: position === segments.length,
+          segmentIndex: position,
+          wildcards: [...wildcards],
+        };
+        if (grant.priority !== undefined) step.priority = grant.priority;
+        if (grant.condition && step.matched) {
+          step.condition = formatCondition(grant.condition);
+          step.conditionPassed = step.matched = evaluateCondition(grant.condition, target.context);
+        }
+        recordStep(target.steps, step);
+      }
+    }
+
+    if (position === segments.length) return;
+    const head = segments[position];
+    const next = position + 1;
+    const exactNode = this.exactChild(head);
+    if (exactNode) exactNode.trace(target, [...path, head], wildcards, next);
+    const wildcardNode = this.children.get("*");
+    if (wildcardNode) wildcardNode.trace(target, [...path, "*"], [...wildcards, "*"], next);
+    for (const [key, template] of this.templates) {
+      const child = this.children.get(key)!;
+      if (template.bind(target.context) === head) {
+        child.trace(target, [...path, key], wildcards, next);
+      } else {
+        child.traceDivergence(target, [...path, key], wildcards, position);
+      }
+    }
+    for (const [key, pattern] of this.patterns) {
+      const child = this.children.get(key)!;
+      if (pattern.test(head)) {
+        child.trace(target, [...path, key], wildcards, next);
+      } else {
+        child.traceDivergence(target, [...path, key], wildcards, position);
+      }
+    }
+  }
+
+  /**
+   * Records the rules under this node covering the requested action as diverging at `position`.
+   */
+  private traceDivergence(target: TraceTarget, path: string[], wildcards: string[], position: number): void {
+    for (const rule of this.collectRules(path)) {
+      if (!target.actions.covers(rule.action)) continue;
+      const step: RuleTrace = {
+        rule: (target.effect === "deny" ? "!" : "") + formatRule(rule.segments, rule.action, target.separators) + grantKey(rule),
+        effect: target.effect,
+        matched: false,
+        segmentIndex: position,
+        wildcards: [...wildcards],
+      };
+      if (rule.priority !== undefined) step.priority = rule.priority;
+      recordStep(target.steps, step);
+    }
+  }
+}
+
+/**
+ * Keeps a rule's best outcome: a match, or else the furthest divergence.
+ */
+function recordStep(steps: Map<string, RuleTrace>, step: RuleTrace): void {
+  const recorded = steps.get(step.rule);
+  if (!recorded || (step.matched && !recorded.matched) || (!recorded.matched && step.segmentIndex > recorded.segmentIndex)) {
+    steps.set(step.rule, step);
+  }
+}
+
+/**
+ * Multi-segment wildcards and the fewest segments each consumes.
+ * `***` matches one or more segments (so `users::***` does not match `users` itself);
+ * `**` matches zero or more.
+ */
+const GLOBSTARS = [["***", 1], ["**", 0]] as const;
+
+/**
+ * Numbers of path segments a multi-segment wildcard node may consume.
+ * A node without children can only end the path, so it must consume everything left.
+ */
+function consumptions(node: PermissionNode, minimum: number, remaining: number): number[] {
+  if (remaining < minimum) return [];
+  if (node.children.size === 0) return [remaining];
+  const counts: number[] = [];
+  for (let consumed = minimum; consumed <= remaining; consumed++) {
+    counts.push(consumed);
+  }
+  return counts;
+}
+
+/**
+ * Canonical rule suffix of a grant, `^priority??condition`, used as its key.
+ */
+export function grantKey({ condition, priority }: GrantSpec): string {
+  return (priority ? "^" + priority : "") + (condition ? "??" + formatCondition(condition) : "");
+}
+
+/**
+ * Whether any of the grants is unconditional or has a condition that holds in the context.
+ */
+function grantApplies(grants: Map<string, RuleGrant>, context?: PermissionContext): boolean {
+  if (grants.has("")) return true;
+  for (const grant of grants.values()) {
+    if (!grant.condition || evaluateCondition(grant.condition, context)) return true;
+  }
+  return false;
+}
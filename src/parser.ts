@@ -0,0 +1,284 @@
+import { isActionNamespace } from "./action";
+import { ConditionSyntaxError, parseCondition, type ConditionExpression } from "./condition";
+import { indexOfUnescaped, resolveSeparators, unescapeSegment, type Separators } from "./path";
+import { compilePattern, isPattern, PatternSyntaxError } from "./pattern";
+import { isTemplate } from "./template";
+
+/**
+ * The kind of a single path segment.
+ * - `literal`: matches the segment exactly
+ * - `wildcard`: `*`, matches any single segment
+ * - `globstar`: `***`, matches one or more segments
+ * - `doublestar`: `**`, matches zero or more segments
+ * - `template`: contains `${variable}` placeholders bound at check time
+ * - `pattern`: a glob (`reports-*`, `user-?`, `{staging,dev}`) or an anchored `/regex/`
+ */
+export type SegmentKind = "literal" | "wildcard" | "globstar" | "doublestar" | "template" | "pattern";
+
+/**
+ * A path segment of a parsed permission.
+ */
+export interface ParsedSegment {
+  value: string;
+  kind: SegmentKind;
+  /** Dotted variable paths referenced by a `template` segment. */
+  variables?: string[];
+}
+
+/**
+ * A permission string broken down into its parts.
+ */
+export interface ParsedPermission {
+  effect: "allow" | "deny";
+  segments: ParsedSegment[];
+  action: string;
+  /**
+   * - `literal`: a single named action
+   * - `wildcard`: `*`, every action
+   * - `namespace`: a glob such as `billing:*`, every action in the namespace
+   * - `set`: several actions separated by commas, e.g. `read,write`
+   */
+  actionKind: "literal" | "wildcard" | "namespace" | "set";
+  /** The members of a `set` action. */
+  actions?: string[];
+  /** Condition that must hold for the rule to apply, written after `??`. */
+  condition?: ConditionExpression;
+  /** Explicit priority for the `priority` resolution strategy, written as `^n` after the action. */
+  priority?: number;
+}
+
+/**
+ * Thrown when a permission string is malformed.
+ */
+export class PermissionSyntaxError extends Error {
+  /**
+   * @param reason What is wrong with the rule.
+   * @param rule The offending permission string.
+   * @param column 1-based column at which the problem was found.
+   * @param index Position of the rule in the list it came from, if any.
+   */
+  constructor(
+    readonly reason: string,
+    readonly rule: string,
+    readonly column: number,
+    readonly index?: number,
+  ) {
+    const where = index === undefined ? "" : ` #${index}`;
+    super(`Invalid permission${where} "${rule}" at column ${column}: ${reason}`);
+    this.name = "PermissionSyntaxError";
+  }
+
+  /**
+   * Returns a copy of this error that records the rule's position in its list.
+   */
+  withIndex(index: number): PermissionSyntaxError {
+    return new PermissionSyntaxError(this.reason, this.rule, this.column, index);
+  }
+}
+
+const CONDITION_SEPARATOR = "??";
+
+/**
+ * Strictly parses a permission string of the form `[!]segment::segment;;action[,action][^priority][??condition]`.
+ * A separator preceded by `\` belongs to its segment; segment values are reported unescaped.
+ * @param permission Permission string.
+ * @param separators Separators to use instead of `::` and `;;`.
+ * @returns The parsed permission.
+ * @throws PermissionSyntaxError If the string is malformed.
+ * @throws TypeError If the separators are invalid.
+ *
+ * @example
+ * ```ts
+ * parsePermission("!users::*;;read")
+ * // { effect: "deny", segments: [{ value: "users", kind: "literal" }, { value: "*", kind: "wildcard" }], action: "read", actionKind: "literal" }
+ * ```
+ */
+export function parsePermission(permission: string, separators?: Partial<Separators>): ParsedPermission {
+  const resolved = resolveSeparators(separators);
+  const { segment: segmentSeparator, action: actionSeparatorText } = resolved;
+  const fail = (reason: string, offset: number): never => {
+    throw new PermissionSyntaxError(reason, permission, offset + 1);
+  };
+
+  if (permission.length === 0) fail("permission is empty", 0);
+
+  const isDenied = permission.startsWith("!");
+  const start = isDenied ? 1 : 0;
+  if (permission.startsWith("!", start)) fail("unexpected '!', a rule can only be negated once", start);
+
+  const conditionSeparator = permission.indexOf(CONDITION_SEPARATOR, start);
+  const ruleEnd = conditionSeparator === -1 ? permission.length : conditionSeparator;
+  const firstActionSeparator = indexOfUnescaped(permission, actionSeparatorText, start);
+  const actionSeparator = firstActionSeparator >= ruleEnd ? -1 : firstActionSeparator;
+  const pathEnd = actionSeparator === -1 ? ruleEnd : actionSeparator;
+
+  const segments: ParsedSegment[] = [];
+  let offset = start;
+  while (true) {
+    const separator = indexOfUnescaped(permission, segmentSeparator, offset);
+    const end = separator === -1 || separator > pathEnd ? pathEnd : separator;
+    const raw = permission.slice(offset, end);
+    checkToken(raw, offset, "path segment", fail, resolved);
+    const ambiguous = ambiguousEdge(raw, segmentSeparator);
+    if (ambiguous !== -1) {
+      fail(`ambiguous '${raw[ambiguous]}' next to a '${segmentSeparator}' separator`, offset + ambiguous);
+    }
+    const value = unescapeSegment(raw, resolved);
+    const kind = segmentKind(value);
+    if (kind === undefined) fail("template segments cannot contain wildcards", offset + raw.indexOf("*"));
+    if (kind === "template") {
+      segments.push({ value, kind, variables: parseVariables(value, offset, fail) });
+    } else if (kind === "pattern") {
+      try {
+        compilePattern(value);
+      } catch (error) {
+        if (error instanceof PatternSyntaxError) fail(error.reason, offset + error.offset);
+        throw error;
+      }
+      segments.push({ value, kind });
+    } else {
+      segments.push({ value, kind: kind! });
+    }
+    if (end === pathEnd) break;
+    offset = end + segmentSeparator.length;
+  }
+
+  let action = "*";
+  let priority: number | undefined;
+  if (actionSeparator !== -1) {
+    const actionStart = actionSeparator + actionSeparatorText.length;
+    action = permission.slice(actionStart, ruleEnd);
+    const caret = action.indexOf("^");
+    if (caret !== -1) {
+      const priorityText = action.slice(caret + 1);
+      if (!/^-?\d+$/.test(priorityText)) fail("priority must be an integer", actionStart + caret + 1);
+      priority = Number(priorityText);
+      action = action.slice(0, caret);
+    }
+    checkToken(action, actionStart, "action", fail, resolved);
+    // Namespaced actions such as `billing:refund` contain a `:` action separator
+    const extraSeparator = actionSeparatorText === ":" ? -1 : action.indexOf(actionSeparatorText);
+    if (extraSeparator !== -1) fail(`unexpected second '${actionSeparatorText}'`, actionStart + extraSeparator);
+    const misplacedSeparator = action.indexOf(segmentSeparator);
+    if (misplacedSeparator !== -1) fail(`actions cannot contain '${segmentSeparator}'`, actionStart + misplacedSeparator);
+    let memberStart = actionStart;
+    for (const member of action.split(",")) {
+      checkToken(member, memberStart, "action", fail, resolved);
+      const star = member.indexOf("*");
+      const valid = star === -1 || member === action && member === "*" || isActionNamespace(member) && star === member.length - 1;
+      if (!valid) {
+        fail(member === "*" ? "'*' cannot be part of an action set" : "the action wildcard must be a lone '*' or end a namespace, e.g. 'billing:*'", memberStart + star);
+      }
+      memberStart += member.length + 1;
+    }
+  }
+
+  const parsed: ParsedPermission = {
+    effect: isDenied ? "deny" : "allow",
+    segments,
+    action,
+    actionKind: actionKind(action),
+  };
+  if (parsed.actionKind === "set") parsed.actions = action.split(",");
+  if (priority !== undefined) parsed.priority = priority;
+  if (conditionSeparator !== -1) {
+    const conditionStart = conditionSeparator + CONDITION_SEPARATOR.length;
+    const source = permission.slice(conditionStart);
+    if (source.trim().length === 0) fail("empty condition", conditionStart);
+    try {
+      parsed.condition = parseCondition(source);
+    } catch (error) {
+      if (error instanceof ConditionSyntaxError) fail(error.reason, conditionStart + error.column - 1);
+      throw error;
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Rejects empty tokens, surrounding whitespace and, for a doubled separator such as `;;`, stray halves of it.
+ */
+function checkToken(
+  value: string,
+  offset: number,
+  name: string,
+  fail: (reason: string, offset: number) => never,
+  separators: Separators,
+): void {
+  if (value.length === 0) fail(`empty ${name}`, offset);
+  if (/^\s/.test(value)) fail(`leading whitespace in ${name}`, offset);
+  if (/\s$/.test(value)) fail(`trailing whitespace in ${name}`, offset + value.length - 1);
+  const stray = findStray(value, separators);
+  if (stray) fail(`stray '${stray.separator[0]}', did you mean '${stray.separator}'?`, offset + stray.index);
+}
+
+/**
+ * The first stray half of a doubled separator such as `;;` in a token, e.g. the `;` of `re;ad`, if any.
+ */
+export function findStray(value: string, separators: Separators): { index: number; separator: string } | undefined {
+  for (const separator of [separators.segment, separators.action]) {
+    const half = doubledCharacter(separator);
+    // `:` also separates action namespaces, so only a doubled `;`-like character can be stray
+    if (half === undefined || half === ":") continue;
+    for (let i = value.indexOf(half); i !== -1; i = value.indexOf(half, i + 1)) {
+      // An escaped character, e.g. `\;`, is never stray
+      let backslashes = 0;
+      while (value[i - 1 - backslashes] === "\\") backslashes++;
+      if (backslashes % 2 === 0 && value[i - 1] !== half && value[i + 1] !== half) return { index: i, separator };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The character a two-character separator such as `;;` repeats, if any.
+ */
+function doubledCharacter(separator: string): string | undefined {
+  return separator.length === 2 && separator[0] === separator[1] ? separator[0] : undefined;
+}
+
+/**
+ * Offset of a character at the edge of a segment that could also belong to the neighbouring separator, as
+ * in `a:::b`, or -1.
+ */
+function ambiguousEdge(raw: string, separator: string): number {
+  if (separator.length < 2) return -1;
+  if (raw.startsWith(separator[separator.length - 1])) return 0;
+  if (!raw.endsWith(separator[0])) return -1;
+  let backslashes = 0;
+  while (raw[raw.length - 2 - backslashes] === "\\") backslashes++;
+  return backslashes % 2 === 0 ? raw.length - 1 : -1;
+}
+
+function actionKind(action: string): ParsedPermission["actionKind"] {
+  if (action.includes(",")) return "set";
+  if (action === "*") return "wildcard";
+  return isActionNamespace(action) ? "namespace" : "literal";
+}
+
+function segmentKind(value: string): SegmentKind | undefined {
+  if (value === "*") return "wildcard";
+  if (value === "**") return "doublestar";
+  if (value === "***") return "globstar";
+  if (isTemplate(value)) return value.includes("*") ? undefined : "template";
+  return isPattern(value) ? "pattern" : "literal";
+}
+
+const VARIABLE = /^[A-Za-z_$][\w$]*(\.[\w$]+)*$/;
+
+/**
+ * Extracts and validates the `${...}` variables of a template segment.
+ */
+function parseVariables(value: string, offset: number, fail: (reason: string, offset: number) => never): string[] {
+  const variables: string[] = [];
+  let start = value.indexOf("${");
+  while (start !== -1) {
+    const end = value.indexOf("}", start);
+    if (end === -1) fail("unterminated '${' in template segment", offset + start);
+    const variable = value.slice(start + 2, end);
+    if (!VARIABLE.test(variable)) fail(`invalid template variable "${variable}"`, offset + start + 2);
+    variables.push(variable);
+    start = value.indexOf("${", end);
+  }
+  return variables;
+}
@@ -0,0 +1,160 @@
+import { isActionNamespace } from "./action";
+import { joinPath } from "./path";
+import { compactGlobstars, expandGlobstars, intersectPaths, isLiteral, pathCovers, samplePattern } from "./region";
+import type { PermissionTreeJSON, SerializedNode } from "./serialize";
+import { compileTemplate, isTemplate, type PermissionContext } from "./template";
+
+/**
+ * A set of requests the trees being compared decide alike.
+ */
+export interface Region {
+  /** Path pattern with `***` written as `*` followed by `**`. */
+  segments: string[];
+  /** Path pattern as a rule would write it. */
+  path: string;
+  /** A request path inside the region that no narrower region contains, as segments. */
+  request: string[];
+}
+
+/**
+ * The regions and actions that together decide every request to some trees.
+ */
+export interface Partition {
+  regions: Region[];
+  /** Actions to probe each region with, paired with the rule action they stand for. */
+  probes: [probe: string, action: string][];
+}
+
+/**
+ * A segment no rule names, standing for any other segment or action.
+ */
+const OTHER = "\u0000other";
+
+/**
+ * Divides requests into regions: the rule paths of the trees and their intersections, with each `**` taken
+ * as each number of segments a rule path could name there, or as more, since each can decide differently.
+ * Regions of a `/regex/` segment, and of templates the context cannot bind, have no representative request
+ * and are left out.
+ * @param context Binds template segments of the representative requests.
+ */
+export function partition(trees: PermissionTreeJSON[], context?: PermissionContext): Partition {
+  const paths = new Map<string, string[]>();
+  const actions = new Set<string>();
+  for (const tree of trees) {
+    for (const root of [tree.allow, tree.deny]) {
+      collectRegions(root, [], paths, actions);
+    }
+    for (const [action, implied] of Object.entries(tree.options.actions)) {
+      for (const name of [action, ...implied]) actions.add(name);
+    }
+  }
+
+  const literals = new Set([...paths.values()].flat().filter(isLiteral));
+  const expanded = [...paths.values()].map(expandGlobstars);
+  const width = Math.max(0, ...expanded.map(path => path.filter(segment => segment !== "**" && !isLiteral(segment)).length)) + 1;
+  const regions = new Map<string, Region>();
+  for (const region of intersectionClosure(expanded)) {
+    for (const segments of fixedWidthVariants(region, width)) {
+      const path = joinPath(compactGlobstars(segments));
+      const request = representative(segments, literals, width, context);
+      if (request !== undefined && !regions.has(path)) regions.set(path, { segments, path, request });
+    }
+  }
+  return { regions: [...regions.values()], probes: actionProbes(actions) };
+}
+
+/**
+ * Collects the path of every node holding actions, and the actions themselves.
+ */
+function collectRegions(node: SerializedNode, path: string[], paths: Map<string, string[]>, actions: Set<string>): void {
+  if (node.actions) {
+    paths.set(joinPath(path), path);
+    for (const [action] of node.actions) {
+      for (const member of action.split(",")) actions.add(member);
+    }
+  }
+  for (const [segment, child] of node.children ?? []) {
+    collectRegions(child, [...path, segment], paths, actions);
+  }
+}
+
+/**
+ * Adds the intersections of the given paths until no new ones appear. Each region is only intersected with the
+ * given paths, since an intersection of regions is one of several paths, and not with those covering it or
+ * covered by it, whose intersection with it is already known.
+ */
+function intersectionClosure(paths: string[][]): string[][] {
+  const regions = new Map(paths.map(path => [joinPath(path), path]));
+  let added = [...regions.values()];
+  while (added.length > 0) {
+    const next: string[][] = [];
+    for (const a of added) {
+      for (const b of paths) {
+        if (pathCovers(a, b) || pathCovers(b, a)) continue;
+        for (const meet of intersectPaths(a, b)) {
+          const key = joinPath(meet);
+          if (!regions.has(key)) {
+            regions.set(key, meet);
+            next.push(meet);
+          }
+        }
+      }
+    }
+    added = next;
+  }
+  return [...regions.values()];
+}
+
+/**
+ * The region with each `**` taken as every number of segments below `width`, or kept.
+ */
+function fixedWidthVariants(region: string[], width: number): string[][] {
+  const index = region.indexOf("**");
+  if (index === -1) return [region];
+  const tails = fixedWidthVariants(region.slice(index + 1), width);
+  const head = region.slice(0, index);
+  const fills = [...Array.from({ length: width }, (_, count) => Array<string>(count).fill("*")), ["**"]];
+  const variants = tails.flatMap(tail => fills.map(fill => [...head, ...fill, ...tail]));
+  return variants.filter(variant => variant.length > 0);
+}
+
+/**
+ * A request path inside the region that no narrower rule singles out, or undefined if none can be built.
+ * @param literals Literal segments the rules name, avoided when sampling patterns.
+ * @param width Segments a `**` is sampled as: more than any rule path has, so rules naming a fixed number of
+ * segments there do not match it.
+ */
+function representative(region: string[], literals: Set<string>, width: number, context?: PermissionContext): string[] | undefined {
+  const segments: string[] = [];
+  for (const segment of region) {
+    let value: string | undefined;
+    if (segment === "**") {
+      segments.push(...Array<string>(width).fill(OTHER));
+      continue;
+    } else if (segment === "*") {
+      value = OTHER;
+    } else if (isTemplate(segment)) {
+      value = compileTemplate(segment).bind(context);
+    } else if (isLiteral(segment)) {
+      value = segment;
+    } else {
+      const samples = samplePattern(segment, OTHER);
+      value = samples.find(sample => !literals.has(sample)) ?? samples[0];
+    }
+    if (value === undefined) return undefined;
+    segments.push(value);
+  }
+  return segments;
+}
+
+/**
+ * Actions to probe each region with, paired with the rule action each stands for.
+ */
+function actionProbes(actions: Set<string>): [probe: string, label: string][] {
+  const probes: [string, string][] = [[OTHER, "*"]];
+  for (const action of [...actions].sort()) {
+    if (action === "*") continue;
+    probes.push(isActionNamespace(action) ? [action.slice(0, -1) + OTHER, action] : [action, action]);
+  }
+  return probes;
+}
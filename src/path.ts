@@ -0,0 +1,214 @@
+/**
+ * The delimiters of a tree's rules and resource paths.
+ */
+export interface Separators {
+  /** Between path segments, `::` by default. */
+  segment: string;
+  /** Between a rule's path and its actions, `;;` by default. */
+  action: string;
+}
+
+export const DEFAULT_SEPARATORS: Separators = { segment: "::", action: ";;" };
+
+const ESCAPE = "\\";
+
+/**
+ * Fills in the default separators and checks that rules written with them can be split unambiguously.
+ * @throws TypeError If a separator is empty, contains `\` or `??`, or one separator contains the other.
+ */
+export function resolveSeparators(separators: Partial<Separators> = {}): Separators {
+  const resolved = { ...DEFAULT_SEPARATORS, ...separators };
+  if (resolved.segment === DEFAULT_SEPARATORS.segment && resolved.action === DEFAULT_SEPARATORS.action) return DEFAULT_SEPARATORS;
+  for (const [name, separator] of Object.entries(resolved)) {
+    if (separator.length === 0 || separator.includes(ESCAPE) || separator.includes("??")) {
+      throw new TypeError(`Invalid ${name} separator "${separator}": it must be non-empty and cannot contain '\\' or '??'`);
+    }
+  }
+  if (resolved.segment.includes(resolved.action) || resolved.action.includes(resolved.segment)) {
+    throw new TypeError(`Separators "${resolved.segment}" and "${resolved.action}" cannot contain one another`);
+  }
+  return resolved;
+}
+
+/**
+ * A resource path split into segments once, so it can be checked repeatedly without re-parsing.
+ *
+ * @example
+ * ```ts
+ * const path = ResourcePath.parse("users::alice\\::example.com::posts")
+ * path.segments // ["users", "alice::example.com", "posts"]
+ * tree.isAllowed(path, "read")
+ * ```
+ */
+export class ResourcePath {
+  private constructor(readonly segments: readonly string[]) {}
+
+  /**
+   * Parses a path, where a separator preceded by `\` belongs to its segment.
+   * @param separators Separators of the tree the path is checked against; only `segment` splits the path.
+   * @throws TypeError If the separators are invalid.
+   */
+  static parse(text: string, separators?: Partial<Separators>): ResourcePath {
+    return new ResourcePath(Object.freeze(splitPath(text, resolveSeparators(separators))));
+  }
+
+  /**
+   * Builds a path from segments taken as-is, e.g. from a URL router.
+   */
+  static from(segments: readonly string[]): ResourcePath {
+    return new ResourcePath(Object.freeze([...segments]));
+  }
+
+  /**
+   * The path extended by more segments.
+   */
+  child(...segments: string[]): ResourcePath {
+    return ResourcePath.from([...this.segments, ...segments]);
+  }
+
+  /**
+   * Writes the path, escaping separators inside segments so that `parse` restores it.
+   */
+  toString(separators?: Partial<Separators>): string {
+    return joinPath(this.segments, resolveSeparators(separators));
+  }
+}
+
+/**
+ * A resource path as `isAllowed` and friends accept it: a string in the tree's syntax, its segments, or a
+ * parsed `ResourcePath`.
+ */
+export type ResourcePathLike = string | readonly string[] | ResourcePath;
+
+/**
+ * The segments of a resource path.
+ */
+export function toSegments(path: ResourcePathLike, separators: Separators): readonly string[] {
+  if (typeof path === "string") return splitPath(path, separators);
+  return path instanceof ResourcePath ? path.segments : path;
+}
+
+/**
+ * Index of the first occurrence of `delimiter` at or after `from` whose first character an odd number of
+ * backslashes does not escape, or -1.
+ */
+export function indexOfUnescaped(text: string, delimiter: string, from = 0): number {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    let backslashes = 0;
+    while (index - backslashes > from && text[index - backslashes - 1] === ESCAPE) backslashes++;
+    if (backslashes % 2 === 0) return index;
+    // An escaped character may end a segment right before a separator, as in `x\:::y`
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Splits a path at unescaped segment separators and unescapes each segment.
+ */
+export function splitPath(text: string, separators: Separators): string[] {
+  if (!text.includes(ESCAPE)) return text.split(separators.segment);
+  const segments: string[] = [];
+  let start = 0;
+  while (true) {
+    const end = indexOfUnescaped(text, separators.segment, start);
+    segments.push(unescapeSegment(end === -1 ? text.slice(start) : text.slice(start, end), separators));
+    if (end === -1) return segments;
+    start = end + separators.segment.length;
+  }
+}
+
+/**
+ * Joins segments into a path, escaping separators inside them.
+ */
+export function joinPath(segments: readonly string[], separators: Separators = DEFAULT_SEPARATORS): string {
+  let path = "";
+  for (let i = 0; i < segments.length; i++) {
+    path += (i === 0 ? "" : separators.segment) + escape(segments[i], separators);
+  }
+  return path;
+}
+
+/**
+ * Writes a rule's path and action, e.g. `users::*;;read`, escaping separators inside segments.
+ */
+export function formatRule(segments: readonly string[], action: string, separators: Separators = DEFAULT_SEPARATORS): string {
+  return joinPath(segments, separators) + separators.action + action;
+}
+
+/**
+ * Escapes the separators inside a segment with `\`, so that it can be written into a rule or a path.
+ * Characters of the action separator, and characters at the edges that would form a separator with the one
+ * next to the segment, are escaped on their own, e.g. `bob;` as `bob\;` and `x:` as `x\:`. Backslashes only
+ * escape such characters or the end of the segment; elsewhere, as in `/v\d+/`, they are kept as-is.
+ * @param separators Separators of the tree the segment is written for.
+ * @throws TypeError If the separators are invalid.
+ *
+ * @example
+ * ```ts
+ * `users::${escapeSegment("alice::example.com")};;read` // "users::alice\\::example.com;;read"
+ * ```
+ */
+export function escapeSegment(segment: string, separators?: Partial<Separators>): string {
+  return escape(segment, resolveSeparators(separators));
+}
+
+function escape(segment: string, separators: Separators): string {
+  if (!segment.includes(ESCAPE) && ![...separators.segment, ...separators.action].some(char => segment.includes(char))) return segment;
+  let escaped = "";
+  let backslashes = 0;
+  for (let i = 0; i < segment.length; i++) {
+    if (segment[i] === ESCAPE) {
+      backslashes++;
+    } else {
+      // Backslashes before an escaped character are doubled, and one more escapes it
+      const escapes = needsEscape(segment.slice(i), i === 0, separators) ? backslashes * 2 + 1 : backslashes;
+      escaped += ESCAPE.repeat(escapes) + segment[i];
+      backslashes = 0;
+    }
+  }
+  // Trailing backslashes are doubled so they cannot escape the separator that follows
+  return escaped + ESCAPE.repeat(backslashes * 2);
+}
+
+/**
+ * Whether the first character of `rest`, the end of a segment, is escaped: any character of the action
+ * separator, which strict parsing would otherwise take for a typo, and a character starting a segment
+ * separator inside the segment, with the separator written after it, as `:` does in `x:` + `::`, or, at the
+ * start of the segment, with the separator written before it, as in `::` + `:y`.
+ */
+function needsEscape(rest: string, first: boolean, separators: Separators): boolean {
+  if (separators.action.includes(rest[0])) return true;
+  const delimiters = [separators.segment, separators.action];
+  for (const delimiter of delimiters) {
+    if (rest.startsWith(delimiter)) return true;
+    if (rest.length < delimiter.length && delimiters.some(next => (rest + next).startsWith(delimiter))) return true;
+    if (first) {
+      const before = separators.segment + rest;
+      for (let i = 1; i < separators.segment.length; i++) if (before.startsWith(delimiter, i)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Reverses `escapeSegment` on a segment as written between separators.
+ * A lone backslash ending a rule or path is kept.
+ */
+export function unescapeSegment(raw: string, separators: Separators): string {
+  if (!raw.includes(ESCAPE)) return raw;
+  // Read from the end: whether a character is escaped depends on the characters after it
+  let end = raw.length;
+  while (end > 0 && raw[end - 1] === ESCAPE) end--;
+  let value = ESCAPE.repeat(Math.ceil((raw.length - end) / 2));
+  while (end > 0) {
+    let start = end - 1;
+    while (start > 0 && raw[start - 1] === ESCAPE) start--;
+    const run = end - 1 - start;
+    const rest = raw[end - 1] + value;
+    value = ESCAPE.repeat(run > 0 && needsEscape(rest, start === 0, separators) ? run >> 1 : run) + rest;
+    end = start;
+  }
+  return value;
+}
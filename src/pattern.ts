@@ -0,0 +1,92 @@
+/**
+ * A path segment that matches more than one literal value.
+ */
+export interface SegmentPattern {
+  test(segment: string): boolean;
+}
+
+/**
+ * Thrown when a segment pattern cannot be compiled.
+ */
+export class PatternSyntaxError extends Error {
+  /**
+   * @param reason What is wrong with the pattern.
+   * @param offset 0-based offset in the segment at which the problem was found.
+   */
+  constructor(
+    readonly reason: string,
+    readonly offset: number,
+  ) {
+    super(reason);
+    this.name = "PatternSyntaxError";
+  }
+}
+
+const WHOLE_SEGMENT_WILDCARDS = new Set(["*", "**", "***"]);
+
+/**
+ * Whether a segment is an anchored regular expression, written `/.../`.
+ */
+export function isRegexSegment(segment: string): boolean {
+  return segment.length > 2 && segment.startsWith("/") && segment.endsWith("/");
+}
+
+/**
+ * Whether a segment is a glob (`reports-*`, `user-?`, `{staging,dev}`) or a `/regex/`.
+ * The whole-segment wildcards `*`, `**` and `***` are not patterns.
+ */
+export function isPattern(segment: string): boolean {
+  if (WHOLE_SEGMENT_WILDCARDS.has(segment) || segment.includes("${")) return false;
+  return isRegexSegment(segment) || /[*?{]/.test(segment);
+}
+
+/**
+ * Compiles a glob or `/regex/` segment.
+ * Globs support `*` (any characters), `?` (one character), `{a,b}` (alternatives) and `\` escapes.
+ * Regular expressions are anchored to the whole segment.
+ * @throws PatternSyntaxError If the pattern is malformed.
+ */
+export function compilePattern(segment: string): SegmentPattern {
+  const source = isRegexSegment(segment) ? segment.slice(1, -1) : globToRegex(segment);
+  let regex: RegExp;
+  try {
+    regex = new RegExp(`^(?:${source})$`, "u");
+  } catch (error) {
+    throw new PatternSyntaxError(`invalid regular expression: ${(error as Error).message}`, 1);
+  }
+  return { test: value => regex.test(value) };
+}
+
+function globToRegex(glob: string): string {
+  let source = "";
+  let braceStart = -1;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "\\") {
+      if (i + 1 === glob.length) throw new PatternSyntaxError("dangling '\\' escape", i);
+      source += escapeRegex(glob[++i]);
+    } else if (char === "*") {
+      if (glob[i + 1] === "*") throw new PatternSyntaxError("'**' is only allowed as a whole segment", i);
+      source += ".*";
+    } else if (char === "?") {
+      source += ".";
+    } else if (char === "{") {
+      if (braceStart !== -1) throw new PatternSyntaxError("nested '{' in glob", i);
+      braceStart = i;
+      source += "(?:";
+    } else if (char === "}" && braceStart !== -1) {
+      braceStart = -1;
+      source += ")";
+    } else if (char === "," && braceStart !== -1) {
+      source += "|";
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  if (braceStart !== -1) throw new PatternSyntaxError("unterminated '{' in glob", braceStart);
+  return source;
+}
+
+function escapeRegex(char: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(char) ? "\\" + char : char;
+}
@@ -0,0 +1,232 @@
+import { joinPath } from "./path";
+import { compilePattern, isPattern, isRegexSegment, type SegmentPattern } from "./pattern";
+import { isTemplate } from "./template";
+
+/**
+ * Compiled patterns by segment; null for malformed patterns.
+ */
+const compiled = new Map<string, SegmentPattern | null>();
+
+/**
+ * Most patterns `compiled` keeps.
+ */
+const MAX_COMPILED_PATTERNS = 1024;
+
+/**
+ * Whether a segment matches only itself.
+ */
+export function isLiteral(segment: string | undefined): boolean {
+  return segment !== undefined && segment !== "*" && segment !== "**" && !isTemplate(segment) && !isPattern(segment);
+}
+
+/**
+ * Rewrites `***` as `*` followed by `**`, so only `**` spans several segments, and then each run of `*` and `**`
+ * as its `*` followed by a single `**`, so runs matching the same number of segments are written alike.
+ */
+export function expandGlobstars(segments: string[]): string[] {
+  return normalizeWildcards(segments.flatMap(segment => segment === "***" ? ["*", "**"] : [segment]));
+}
+
+/**
+ * Whether every path matched by `inner` is matched by `outer`. Both use `**` as their only multi-segment wildcard.
+ */
+export function pathCovers(outer: string[], inner: string[]): boolean {
+  const failed = new Set<number>();
+  const visit = (o: number, i: number): boolean => {
+    const state = o * (inner.length + 1) + i;
+    if (failed.has(state)) return false;
+    let covered: boolean;
+    if (outer[o] === "**") {
+      covered = visit(o + 1, i) || (i < inner.length && visit(o, i + 1));
+    } else if (i === inner.length || o === outer.length) {
+      covered = i === inner.length && o === outer.length;
+    } else {
+      covered = inner[i] !== "**" && segmentCovers(outer[o], inner[i]) && visit(o + 1, i + 1);
+    }
+    if (!covered) failed.add(state);
+    return covered;
+  };
+  return visit(0, 0);
+}
+
+/**
+ * Whether some path could be matched by both `a` and `b`. Errs towards true.
+ */
+export function pathsIntersect(a: string[], b: string[]): boolean {
+  const failed = new Set<number>();
+  const visit = (i: number, j: number): boolean => {
+    const state = i * (b.length + 1) + j;
+    if (failed.has(state)) return false;
+    let intersects: boolean;
+    if (a[i] === "**") {
+      intersects = visit(i + 1, j) || (j < b.length && visit(i, j + 1));
+    } else if (b[j] === "**") {
+      intersects = visit(i, j + 1) || (i < a.length && visit(i + 1, j));
+    } else if (i === a.length || j === b.length) {
+      intersects = i === a.length && j === b.length;
+    } else {
+      intersects = segmentsIntersect(a[i], b[j]) && visit(i + 1, j + 1);
+    }
+    if (!intersects) failed.add(state);
+    return intersects;
+  };
+  return visit(0, 0);
+}
+
+/**
+ * Whether every segment matched by `inner` is matched by `outer`.
+ */
+export function segmentCovers(outer: string, inner: string): boolean {
+  if (outer === "*" || outer === inner) return true;
+  if (inner === "*" || isTemplate(outer) || isTemplate(inner) || isPattern(inner)) return false;
+  return patternFor(outer)?.test(inner) ?? false;
+}
+
+/**
+ * Whether some segment could be matched by both `a` and `b`. Errs towards true.
+ */
+export function segmentsIntersect(a: string, b: string): boolean {
+  if (a === "*" || b === "*" || a === b || isTemplate(a) || isTemplate(b)) return true;
+  const patternA = patternFor(a);
+  const patternB = patternFor(b);
+  if (patternA && patternB) return true;
+  if (patternA) return patternA.test(b);
+  if (patternB) return patternB.test(a);
+  return false;
+}
+
+/**
+ * The compiled pattern of a segment, or null for literals and malformed patterns.
+ */
+function patternFor(segment: string): SegmentPattern | null {
+  if (!isPattern(segment)) return null;
+  let pattern = compiled.get(segment);
+  if (pattern === undefined) {
+    try {
+      pattern = compilePattern(segment);
+    } catch {
+      // A malformed pattern is stored as a literal
+      pattern = null;
+    }
+    // Rules may come from many trees over the life of a process; bound the cache rather than grow with it
+    if (compiled.size >= MAX_COMPILED_PATTERNS) compiled.clear();
+    compiled.set(segment, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Path patterns whose union is every path matched by both `a` and `b`: one for each way of lining up their
+ * segments, where a `**` on both sides becomes a `**` that either side may still move past alone.
+ * Both use `**` as their only multi-segment wildcard; the result may overlap and is exact for literals and wildcards.
+ * Each pattern is written as `expandGlobstars` writes paths.
+ */
+export function intersectPaths(a: string[], b: string[]): string[][] {
+  const results = new Map<string, string[]>();
+  const visit = (i: number, j: number, prefix: string[]): void => {
+    if (a[i] === "**" || b[j] === "**") {
+      if (a[i] === "**" && b[j] === "**") prefix = [...prefix, "**"];
+      if (a[i] === "**") {
+        visit(i + 1, j, prefix);
+        if (j < b.length && b[j] !== "**") visit(i, j + 1, [...prefix, b[j]]);
+      }
+      if (b[j] === "**") {
+        visit(i, j + 1, prefix);
+        if (i < a.length && a[i] !== "**") visit(i + 1, j, [...prefix, a[i]]);
+      }
+      return;
+    }
+    if (i === a.length || j === b.length) {
+      if (i === a.length && j === b.length) {
+        const path = normalizeWildcards(prefix);
+        results.set(joinPath(path), path);
+      }
+      return;
+    }
+    const segment = meetSegments(a[i], b[j]);
+    if (segment !== undefined) visit(i + 1, j + 1, [...prefix, segment]);
+  };
+  visit(0, 0, []);
+  return [...results.values()];
+}
+
+/**
+ * Rewrites each run of `*` and `**` as its `*` followed by a single `**`, if it has one.
+ */
+function normalizeWildcards(segments: string[]): string[] {
+  const normalized: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    if (segments[i] !== "*" && segments[i] !== "**") {
+      normalized.push(segments[i]);
+      continue;
+    }
+    let end = i;
+    while (segments[end] === "*" || segments[end] === "**") end++;
+    const run = segments.slice(i, end);
+    normalized.push(...run.filter(segment => segment === "*"), ...(run.includes("**") ? ["**"] : []));
+    i = end - 1;
+  }
+  return normalized;
+}
+
+/**
+ * A segment pattern for the segments matched by both `a` and `b`, or undefined if they are disjoint.
+ * Two different patterns meet at the first, which may over-approximate.
+ */
+function meetSegments(a: string, b: string): string | undefined {
+  if (a === b || b === "*") return a;
+  if (a === "*") return b;
+  if (!segmentsIntersect(a, b)) return undefined;
+  return isLiteral(a) ? a : isLiteral(b) ? b : a;
+}
+
+/**
+ * Rewrites `*` followed by `**` back to `***`, undoing `expandGlobstars`.
+ */
+export function compactGlobstars(segments: string[]): string[] {
+  const compacted: string[] = [];
+  for (const segment of segments) {
+    if (segment === "**" && compacted[compacted.length - 1] === "*") {
+      compacted[compacted.length - 1] = "***";
+    } else {
+      compacted.push(segment);
+    }
+  }
+  return compacted;
+}
+
+/**
+ * Segments matched by a glob pattern: every combination of its `{a,b}` alternatives, with `*` and `?` filled
+ * from `filler`. Empty for regular expressions.
+ * @param filler Text unlikely to appear in rules, so samples avoid segments that rules name.
+ */
+export function samplePattern(segment: string, filler: string): string[] {
+  if (isRegexSegment(segment)) return [];
+  let samples = [""];
+  let alternatives: string[] | undefined;
+  const append = (text: string) => {
+    if (alternatives) {
+      alternatives[alternatives.length - 1] += text;
+    } else {
+      samples = samples.map(sample => sample + text);
+    }
+  };
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === "\\") {
+      append(segment[++i] ?? "");
+    } else if (char === "{" && !alternatives) {
+      alternatives = [""];
+    } else if (char === "," && alternatives) {
+      alternatives.push("");
+    } else if (char === "}" && alternatives) {
+      const options = alternatives;
+      samples = samples.flatMap(sample => options.map(option => sample + option));
+      alternatives = undefined;
+    } else {
+      append(char === "*" ? filler : char === "?" ? filler[0] : char);
+    }
+  }
+  const pattern = patternFor(segment);
+  return samples.filter(sample => pattern?.test(sample));
+}
@@ -0,0 +1,179 @@
+import { PermissionTree, type PermissionTreeOptions } from "./tree";
+
+/**
+ * A role's own rules and the roles it inherits from.
+ */
+export interface RoleDefinition {
+  /** Permission strings granted by the role. */
+  allow?: string[];
+  /** Permission strings denied by the role, written without the leading `!`. */
+  deny?: string[];
+  /** Names of roles whose rules this role inherits. */
+  extends?: string[];
+}
+
+/**
+ * Thrown when role inheritance forms a cycle.
+ */
+export class RoleCycleError extends Error {
+  /**
+   * @param cycle Role names along the cycle, starting and ending with the same role.
+   */
+  constructor(readonly cycle: string[]) {
+    super(`Role inheritance cycle: ${cycle.join(" -> ")}`);
+    this.name = "RoleCycleError";
+  }
+}
+
+/**
+ * Thrown when a role is assigned or extended but never defined.
+ */
+export class UnknownRoleError extends Error {
+  constructor(readonly role: string) {
+    super(`Unknown role "${role}"`);
+    this.name = "UnknownRoleError";
+  }
+}
+
+/**
+ * A permission rule together with the role that declares it.
+ */
+export interface RoleRule {
+  rule: string;
+  role: string;
+}
+
+/**
+ * Registry of named roles that compile into a `PermissionTree`.
+ *
+ * @example
+ * ```ts
+ * const roles = new RoleRegistry({
+ *   viewer: { allow: ["projects::*;;read"] },
+ *   developer: { extends: ["viewer"], allow: ["projects::*;;write"], deny: ["projects::production;;write"] },
+ * })
+ * const tree = roles.resolve(["developer"])
+ * tree.isAllowed("projects::webapp", "read") // true
+ * tree.explain("projects::webapp", "read").ruleSources // { "projects::*;;read": ["viewer"] }
+ * ```
+ */
+export class RoleRegistry {
+  private roles = new Map<string, RoleDefinition>();
+
+  /**
+   * @param roles Initial role definitions, keyed by role name.
+   * @throws RoleCycleError If the definitions' inheritance forms a cycle.
+   */
+  constructor(roles: Record<string, RoleDefinition> = {}) {
+    for (const [name, definition] of Object.entries(roles)) {
+      this.roles.set(name, definition);
+    }
+    for (const name of this.roles.keys()) {
+      this.checkCycles(name);
+    }
+  }
+
+  /**
+   * Defines or redefines a role.
+   * Roles it extends may be defined later.
+   * @param name Role name.
+   * @param definition Role rules and inherited roles.
+   * @throws RoleCycleError If the definition introduces an inheritance cycle; the registry is left unchanged.
+   */
+  define(name: string, definition: RoleDefinition): this {
+    const previous = this.roles.get(name);
+    this.roles.set(name, definition);
+    try {
+      this.checkCycles(name);
+    } catch (error) {
+      if (previous) {
+        this.roles.set(name, previous);
+      } else {
+        this.roles.delete(name);
+      }
+      throw error;
+    }
+    return this;
+  }
+
+  /**
+   * Checks whether a role is defined.
+   */
+  has(name: string): boolean {
+    return this.roles.has(name);
+  }
+
+  /**
+   * Expands assigned roles into every role they include, inherited roles first.
+   * @param roleNames Assigned role names.
+   * @returns Each included role name, once.
+   * @throws UnknownRoleError If an assigned or inherited role is not defined.
+   */
+  expand(roleNames: string[]): string[] {
+    const expanded: string[] = [];
+    const visit = (name: string) => {
+      if (expanded.includes(name)) return;
+      const definition = this.roles.get(name);
+      if (!definition) throw new UnknownRoleError(name);
+      for (const parent of definition.extends ?? []) {
+        visit(parent);
+      }
+      expanded.push(name);
+    };
+    for (const name of roleNames) {
+      visit(name);
+    }
+    return expanded;
+  }
+
+  /**
+   * Lists the permission rules granted by the assigned roles, including inherited ones.
+   * @param roleNames Assigned role names.
+   * @returns Rules tagged with the role that declares them.
+   * @throws UnknownRoleError If an assigned or inherited role is not defined.
+   */
+  rulesFor(roleNames: string[]): RoleRule[] {
+    return this.expand(roleNames).flatMap(role => {
+      const { allow = [], deny = [] } = this.roles.get(role)!;
+      return [
+        ...allow.map(rule => ({ rule, role })),
+        ...deny.map(rule => ({ rule: rule.startsWith("!") ? rule : "!" + rule, role })),
+      ];
+    });
+  }
+
+  /**
+   * Compiles the assigned roles into a permission tree.
+   * `explain()` on the result reports the contributing role of each matched rule in `ruleSources`.
+   * @param roleNames Assigned role names.
+   * @param options Options for the resulting tree.
+   * @throws UnknownRoleError If an assigned or inherited role is not defined.
+   */
+  resolve(roleNames: string[], options?: PermissionTreeOptions): PermissionTree {
+    const tree = new PermissionTree([], options);
+    for (const { rule, role } of this.rulesFor(roleNames)) {
+      tree.addRule(rule, role);
+    }
+    return tree;
+  }
+
+  /**
+   * Throws if a cycle is reachable from the given role through defined roles.
+   */
+  private checkCycles(start: string): void {
+    const path: string[] = [];
+    const done = new Set<string>();
+    const visit = (name: string) => {
+      const index = path.indexOf(name);
+      if (index !== -1) throw new RoleCycleError([...path.slice(index), name]);
+      if (done.has(name)) return;
+      path.push(name);
+      for (const parent of this.roles.get(name)?.extends ?? []) {
+        visit(parent);
+      }
+      path.pop();
+      done.add(name);
+    };
+    visit(start);
+  }
+}
@@ -0,0 +1,291 @@
+import { isActionNamespace } from "./action";
+import { parsePermission, PermissionSyntaxError, type ParsedPermission } from "./parser";
+import { compilePattern, PatternSyntaxError } from "./pattern";
+import type { PermissionContext } from "./template";
+import { PermissionTree, type PermissionExplanation, type PermissionTreeOptions } from "./tree";
+
+/**
+ * Nested resources, e.g. `{ users: { $id: { posts: {} } } }`. A key starting with `$` stands for any one segment.
+ */
+export type ResourceSchema = { readonly [segment: string]: ResourceSchema };
+
+/**
+ * Every resource of a schema as written in it, e.g. `"users" | "users::$id" | "users::$id::posts"`.
+ */
+export type SchemaKey<S> = string extends keyof S
+  ? string
+  : { [K in keyof S & string]: K | `${K}::${SchemaKey<S[K]>}` }[keyof S & string];
+
+/**
+ * Actions by resource. A resource without its own entry has the actions of its nearest ancestor that has one.
+ */
+export type SchemaActions<S> = { readonly [K in SchemaKey<S>]?: readonly string[] };
+
+/**
+ * Every resource path a schema allows, e.g. `"users" | `users::${string}` | `users::${string}::posts``.
+ */
+export type SchemaPath<S> = SchemaEntries<S, {}> extends infer E ? (E extends { path: infer P extends string } ? P : never) : never;
+
+/**
+ * The actions of a resource path, or never if the schema does not allow the path.
+ */
+export type SchemaAction<S, A, P extends string> = ActionsAlong<S, A, Split<P>>;
+
+/**
+ * A rule naming a resource of the schema and one of its actions or `*`, optionally negated with `!`.
+ */
+export type SchemaRule<S, A> =
+  SchemaEntries<S, A> extends infer E
+    ? E extends { path: infer P extends string; actions: infer X extends string }
+      ? `${"" | "!"}${P};;${X | "*"}`
+      : never
+    : never;
+
+/**
+ * A `PermissionTree` whose checks and rule edits only accept the paths, actions and rules of a schema.
+ * `isAllowedMany` takes an action every one of its paths defines. `filterAllowed` takes an action of any path
+ * `toPath` returns: TypeScript settles a callback's return type only after checking the arguments that follow it.
+ */
+export type SchemaTree<S, A> = Omit<PermissionTree, "isAllowed" | "isAllowedMany" | "filterAllowed" | "explain" | "addRule" | "removeRule" | "has"> & {
+  isAllowed<P extends SchemaPath<S>>(resourcePath: P, action: SchemaAction<S, A, P>, context?: PermissionContext): boolean;
+  isAllowedMany<P extends SchemaPath<S>>(resourcePaths: readonly P[], action: SharedAction<S, A, P>, context?: PermissionContext): boolean[];
+  filterAllowed<T, P extends SchemaPath<S>>(items: T[], toPath: (item: T) => P, action: SchemaAction<S, A, P>, context?: PermissionContext): T[];
+  explain<P extends SchemaPath<S>>(resourcePath: P, action: SchemaAction<S, A, P>, context?: PermissionContext): PermissionExplanation;
+  addRule(permission: SchemaRule<S, A>, source?: string): void;
+  removeRule(permission: SchemaRule<S, A>, source?: string): boolean;
+  has(permission: SchemaRule<S, A>): boolean;
+};
+
+/**
+ * Thrown when a rule names a resource or an action its schema does not define.
+ */
+export class SchemaError extends Error {
+  /**
+   * @param reason What does not conform.
+   * @param rule The offending permission string.
+   * @param index Position of the rule in the list it came from, if any.
+   */
+  constructor(
+    readonly reason: string,
+    readonly rule: string,
+    readonly index?: number
+  ) {
+    const where = index === undefined ? "" : ` #${index}`;
+    super(`Permission${where} "${rule}" does not conform to the schema: ${reason}`);
+    this.name = "SchemaError";
+  }
+}
+
+type Split<P extends string> = P extends `${infer Head}::${infer Rest}` ? [Head, ...Split<Rest>] : [P];
+
+type Join<Prefix extends string, Segment extends string> = Prefix extends "" ? Segment : `${Prefix}::${Segment}`;
+
+type PathSegment<K extends string> = K extends `$${string}` ? string : K;
+
+type Member<T> = T extends readonly (infer E extends string)[] ? E : never;
+
+type OwnActions<A, Key extends string, Inherited extends string> = Key extends keyof A ? Member<A[Key]> : Inherited;
+
+/**
+ * The resources of a schema with the paths they stand for and their actions.
+ */
+type SchemaEntries<S, A, Key extends string = "", Path extends string = "", Inherited extends string = never> = string extends keyof S
+  ? { path: string; actions: string }
+  : {
+      [K in keyof S & string]:
+        | { path: Join<Path, PathSegment<K>>; actions: OwnActions<A, Join<Key, K>, Inherited> }
+        | SchemaEntries<S[K], A, Join<Key, K>, Join<Path, PathSegment<K>>, OwnActions<A, Join<Key, K>, Inherited>>;
+    }[keyof S & string];
+
+/**
+ * The actions every path of a union defines.
+ */
+type SharedAction<S, A, P extends string> = (P extends string ? (action: SchemaAction<S, A, P>) => void : never) extends (action: infer X) => void
+  ? X
+  : never;
+
+type ChildKey<S, Segment extends string> = Segment extends keyof S & string ? Segment : Extract<keyof S, `$${string}`>;
+
+type ActionsAlong<S, A, Segments extends string[], Key extends string = "", Inherited extends string = never> =
+  Segments extends [infer Head extends string, ...infer Rest extends string[]]
+    ? [ChildKey<S, Head>] extends [never]
+      ? never
+      : ActionsAlong<S[ChildKey<S, Head>], A, Rest, Join<Key, ChildKey<S, Head>>, OwnActions<A, Join<Key, ChildKey<S, Head>>, Inherited>>
+    : Inherited;
+
+/**
+ * A resource of the schema at runtime.
+ */
+interface SchemaNode {
+  /** The resource as written in the schema, e.g. `users::$id`. */
+  key: string;
+  segment: string;
+  literals: Map<string, SchemaNode>;
+  params: SchemaNode[];
+  actions: Set<string>;
+}
+
+/**
+ * The resources and actions of an application, checking rules against them at compile time and at runtime.
+ * Built by `defineSchema`.
+ */
+export class PermissionSchema<S extends ResourceSchema, A extends SchemaActions<S>> {
+  private readonly root: SchemaNode;
+
+  /**
+   * @throws TypeError If an actions key is not a resource of the schema.
+   */
+  constructor(
+    readonly resources: S,
+    readonly actions: A
+  ) {
+    this.root = buildNode("", "", resources, actions as Record<string, readonly string[] | undefined>, new Set());
+    const keys = new Set(collectKeys(this.root));
+    for (const key of Object.keys(actions)) {
+      if (!keys.has(key)) throw new TypeError(`Actions are defined for "${key}", which is not a resource of the schema`);
+    }
+  }
+
+  /**
+   * Builds a tree from rules checked against the schema.
+   * The tree is an ordinary `PermissionTree`, typed so that checks only accept the schema's paths and actions.
+   * @throws SchemaError If a rule does not conform to the schema.
+   * @throws PermissionSyntaxError If a rule is malformed.
+   */
+  tree(rules: readonly SchemaRule<S, A>[], options?: Omit<PermissionTreeOptions, "separators">): SchemaTree<S, A> {
+    this.validate(rules);
+    return new PermissionTree([...rules], options) as unknown as SchemaTree<S, A>;
+  }
+
+  /**
+   * Checks rules written at runtime, e.g. loaded from a database, against the schema. Wildcards, globstars,
+   * patterns and templates must be able to reach a resource defining each of the rule's actions.
+   * @throws SchemaError If a rule does not conform to the schema.
+   * @throws PermissionSyntaxError If a rule is malformed.
+   */
+  validate(rules: readonly string[]): void {
+    rules.forEach((rule, index) => {
+      let parsed: ParsedPermission;
+      try {
+        parsed = parsePermission(rule);
+      } catch (error) {
+        throw error instanceof PermissionSyntaxError ? error.withIndex(index) : error;
+      }
+      const reason = this.check(parsed);
+      if (reason !== undefined) throw new SchemaError(reason, rule, index);
+    });
+  }
+
+  /**
+   * Why a parsed rule does not conform, or undefined if it does.
+   */
+  private check(parsed: ParsedPermission): string | undefined {
+    let nodes = [this.root];
+    for (const segment of parsed.segments) {
+      const next = new Set<SchemaNode>();
+      for (const node of nodes) {
+        switch (segment.kind) {
+          case "literal":
+            for (const child of [node.literals.get(segment.value), ...node.params]) if (child) next.add(child);
+            break;
+          case "pattern":
+            for (const [key, child] of node.literals) if (matchesPattern(segment.value, key)) next.add(child);
+            for (const child of node.params) next.add(child);
+            break;
+          case "wildcard":
+          case "template":
+            for (const child of children(node)) next.add(child);
+            break;
+          case "doublestar":
+            for (const child of descendants(node)) next.add(child);
+            next.add(node);
+            break;
+          case "globstar":
+            for (const child of descendants(node)) next.add(child);
+            break;
+        }
+      }
+      if (next.size === 0) {
+        const known = [...new Set(nodes.flatMap(node => children(node).map(child => child.segment)))];
+        return `segment "${segment.value}" names no resource${known.length > 0 ? `; expected one of ${known.join(", ")}` : ""}`;
+      }
+      nodes = [...next];
+    }
+
+    if (parsed.actionKind === "wildcard") return undefined;
+    const defined = new Set(nodes.flatMap(node => [...node.actions]));
+    for (const action of parsed.actions ?? [parsed.action]) {
+      const known = isActionNamespace(action) ? [...defined].some(name => name.startsWith(action.slice(0, -1))) : defined.has(action);
+      if (!known) {
+        return `action "${action}" is not defined for this resource${defined.size > 0 ? `; expected one of ${[...defined].join(", ")}` : ""}`;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Defines the resources and actions of an application, so that paths, actions and rules are type-checked and
+ * rules can be validated at runtime.
+ * @param resources Nested resources; a key starting with `$` stands for any one segment.
+ * @param actions Actions by resource key, e.g. `"users::$id::posts"`; resources inherit their ancestors' actions.
+ * @throws TypeError If an actions key is not a resource of the schema.
+ *
+ * @example
+ * ```ts
+ * const schema = defineSchema(
+ *   { users: { $id: { posts: { $id: {} } } } },
+ *   { users: ["read", "write"], "users::$id::posts": ["read", "publish"] }
+ * )
+ * const tree = schema.tree(["users::*;;read", "users::42::posts::*;;publish"])
+ * tree.isAllowed("users::42::posts::7", "publish") // true
+ * tree.isAllowed("users::42", "raed") // type error
+ * ```
+ */
+export function defineSchema<const S extends ResourceSchema, const A extends SchemaActions<S>>(
+  resources: S,
+  actions: A
+): PermissionSchema<S, A> {
+  return new PermissionSchema(resources, actions);
+}
+
+function buildNode(
+  key: string,
+  segment: string,
+  resources: ResourceSchema,
+  actions: Record<string, readonly string[] | undefined>,
+  inherited: Set<string>
+): SchemaNode {
+  const own = actions[key];
+  const node: SchemaNode = { key, segment, literals: new Map(), params: [], actions: own ? new Set(own) : inherited };
+  for (const [name, children] of Object.entries(resources)) {
+    const child = buildNode(key === "" ? name : `${key}::${name}`, name, children, actions, node.actions);
+    if (name.startsWith("$")) {
+      node.params.push(child);
+    } else {
+      node.literals.set(name, child);
+    }
+  }
+  return node;
+}
+
+function children(node: SchemaNode): SchemaNode[] {
+  return [...node.literals.values(), ...node.params];
+}
+
+function descendants(node: SchemaNode): SchemaNode[] {
+  return children(node).flatMap(child => [child, ...descendants(child)]);
+}
+
+function collectKeys(node: SchemaNode): string[] {
+  return descendants(node).map(descendant => descendant.key);
+}
+
+function matchesPattern(pattern: string, segment: string): boolean {
+  try {
+    return compilePattern(pattern).test(segment);
+  } catch (error) {
+    if (error instanceof PatternSyntaxError) return false;
+    throw error;
+  }
+}
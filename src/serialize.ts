@@ -0,0 +1,343 @@
+import type { ActionHierarchy } from "./action";
+import type { ConditionExpression } from "./condition";
+import type { Separators } from "./path";
+import type { ResolutionStrategy } from "./tree";
+
+/**
+ * Version of the JSON and binary snapshot formats written by this library.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Insertions of one action at a node that share a condition and priority.
+ */
+export interface SerializedGrant {
+  count: number;
+  condition?: ConditionExpression;
+  priority?: number;
+}
+
+/**
+ * A tree node with its children and grants, in insertion order.
+ * Pairs rather than objects, so segments such as `__proto__` survive.
+ */
+export interface SerializedNode {
+  children?: [segment: string, node: SerializedNode][];
+  actions?: [action: string, grants: SerializedGrant[]][];
+}
+
+/**
+ * The complete state of a `PermissionTree`, as returned by `toJSON()`.
+ */
+export interface PermissionTreeJSON {
+  version: number;
+  options: {
+    strict: boolean;
+    resolution: ResolutionStrategy;
+    actions: ActionHierarchy;
+    /** Present when the tree does not use `::` and `;;`. */
+    separators?: Separators;
+  };
+  allow: SerializedNode;
+  deny: SerializedNode;
+  /** Insertion counts per source, keyed by rule. */
+  sources: [rule: string, counts: [source: string, count: number][]][];
+}
+
+/**
+ * Thrown when a serialized tree cannot be restored.
+ */
+export class SnapshotError extends Error {
+  constructor(reason: string) {
+    super(`Invalid permission tree snapshot: ${reason}`);
+    this.name = "SnapshotError";
+  }
+}
+
+/**
+ * Magic bytes opening a binary snapshot, `SACT`.
+ */
+const MAGIC = [0x53, 0x41, 0x43, 0x54];
+
+const HAS_PRIORITY = 1;
+const HAS_CONDITION = 2;
+
+/** Option flags; snapshots with the default separators are unchanged from before custom separators. */
+const STRICT = 1;
+const HAS_SEPARATORS = 2;
+
+/**
+ * Checks the version of a JSON snapshot.
+ * @throws SnapshotError If the value is not a snapshot or was written by an unsupported version.
+ */
+export function checkSnapshotVersion(json: PermissionTreeJSON): void {
+  if (json === null || typeof json !== "object" || typeof json.version !== "number") {
+    throw new SnapshotError("missing version");
+  }
+  if (json.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`unsupported version ${json.version}, expected ${SNAPSHOT_VERSION}`);
+  }
+}
+
+/**
+ * Encodes a JSON snapshot in the compact binary format.
+ *
+ * Layout: the magic bytes `SACT`, a version byte, then a table of every distinct string and the tree
+ * itself, with strings written as table indexes and all integers as LEB128 varints.
+ */
+export function encodeSnapshot(json: PermissionTreeJSON): Uint8Array {
+  const strings = new Map<string, number>();
+  const intern = (value: string) => {
+    let index = strings.get(value);
+    if (index === undefined) {
+      index = strings.size;
+      strings.set(value, index);
+    }
+    return index;
+  };
+
+  const body = new ByteWriter();
+  const writeString = (value: string) => body.uint(intern(value));
+  const writeNode = (node: SerializedNode) => {
+    const children = node.children ?? [];
+    body.uint(children.length);
+    for (const [segment, child] of children) {
+      writeString(segment);
+      writeNode(child);
+    }
+    const actions = node.actions ?? [];
+    body.uint(actions.length);
+    for (const [action, grants] of actions) {
+      writeString(action);
+      body.uint(grants.length);
+      for (const grant of grants) {
+        body.uint(grant.count);
+        body.uint((grant.priority !== undefined ? HAS_PRIORITY : 0) | (grant.condition ? HAS_CONDITION : 0));
+        if (grant.priority !== undefined) body.int(grant.priority);
+        if (grant.condition) writeString(JSON.stringify(grant.condition));
+      }
+    }
+  };
+
+  const { strict, resolution, actions, separators } = json.options;
+  body.uint((strict ? STRICT : 0) | (separators ? HAS_SEPARATORS : 0));
+  if (separators) {
+    writeString(separators.segment);
+    writeString(separators.action);
+  }
+  writeString(resolution);
+  const hierarchy = Object.entries(actions);
+  body.uint(hierarchy.length);
+  for (const [action, implied] of hierarchy) {
+    writeString(action);
+    body.uint(implied.length);
+    implied.forEach(writeString);
+  }
+  writeNode(json.allow);
+  writeNode(json.deny);
+  body.uint(json.sources.length);
+  for (const [rule, counts] of json.sources) {
+    writeString(rule);
+    body.uint(counts.length);
+    for (const [source, count] of counts) {
+      writeString(source);
+      body.uint(count);
+    }
+  }
+
+  const output = new ByteWriter();
+  output.bytes(new Uint8Array([...MAGIC, SNAPSHOT_VERSION]));
+  output.uint(strings.size);
+  const encoder = new TextEncoder();
+  for (const value of strings.keys()) {
+    const encoded = encoder.encode(value);
+    output.uint(encoded.length);
+    output.bytes(encoded);
+  }
+  output.bytes(body.finish());
+  return output.finish();
+}
+
+/**
+ * Decodes a binary snapshot into its JSON form.
+ * @throws SnapshotError If the bytes are not a snapshot, were written by an unsupported version or are truncated.
+ */
+export function decodeSnapshot(bytes: Uint8Array): PermissionTreeJSON {
+  if (bytes.length < MAGIC.length + 1 || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new SnapshotError("missing header");
+  }
+  const version = bytes[MAGIC.length];
+  if (version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`unsupported version ${version}, expected ${SNAPSHOT_VERSION}`);
+  }
+
+  const reader = new ByteReader(bytes, MAGIC.length + 1);
+  const decoder = new TextDecoder("utf-8", { fatal: true });
+  const strings: string[] = [];
+  const stringCount = reader.uint();
+  for (let i = 0; i < stringCount; i++) {
+    const encoded = reader.bytes(reader.uint());
+    try {
+      strings.push(decoder.decode(encoded));
+    } catch {
+      throw new SnapshotError("invalid UTF-8 in string table");
+    }
+  }
+  const readString = () => {
+    const index = reader.uint();
+    if (index >= strings.length) throw new SnapshotError(`string index ${index} out of range`);
+    return strings[index];
+  };
+  const readCondition = (): ConditionExpression => {
+    try {
+      return JSON.parse(readString());
+    } catch (error) {
+      if (error instanceof SnapshotError) throw error;
+      throw new SnapshotError("malformed condition");
+    }
+  };
+  const readNode = (): SerializedNode => {
+    const node: SerializedNode = {};
+    const childCount = reader.uint();
+    if (childCount > 0) {
+      node.children = [];
+      for (let i = 0; i < childCount; i++) {
+        const segment = readString();
+        node.children.push([segment, readNode()]);
+      }
+    }
+    const actionCount = reader.uint();
+    if (actionCount > 0) {
+      node.actions = [];
+      for (let i = 0; i < actionCount; i++) {
+        const action = readString();
+        const grants: SerializedGrant[] = [];
+        const grantCount = reader.uint();
+        for (let j = 0; j < grantCount; j++) {
+          const grant: SerializedGrant = { count: reader.uint() };
+          const flags = reader.uint();
+          if (flags & HAS_PRIORITY) grant.priority = reader.int();
+          if (flags & HAS_CONDITION) grant.condition = readCondition();
+          grants.push(grant);
+        }
+        node.actions.push([action, grants]);
+      }
+    }
+    return node;
+  };
+
+  const flags = reader.uint();
+  const strict = (flags & STRICT) !== 0;
+  const separators: Separators | undefined = flags & HAS_SEPARATORS ? { segment: readString(), action: readString() } : undefined;
+  const resolution = readString() as ResolutionStrategy;
+  const hierarchy: [string, string[]][] = [];
+  const hierarchySize = reader.uint();
+  for (let i = 0; i < hierarchySize; i++) {
+    const action = readString();
+    const implied: string[] = [];
+    const impliedCount = reader.uint();
+    for (let j = 0; j < impliedCount; j++) {
+      implied.push(readString());
+    }
+    hierarchy.push([action, implied]);
+  }
+  const actions: ActionHierarchy = Object.fromEntries(hierarchy);
+  const allow = readNode();
+  const deny = readNode();
+  const sources: PermissionTreeJSON["sources"] = [];
+  const sourceCount = reader.uint();
+  for (let i = 0; i < sourceCount; i++) {
+    const rule = readString();
+    const counts: [string, number][] = [];
+    const countsSize = reader.uint();
+    for (let j = 0; j < countsSize; j++) {
+      const source = readString();
+      counts.push([source, reader.uint()]);
+    }
+    sources.push([rule, counts]);
+  }
+  if (!reader.done()) throw new SnapshotError("unexpected trailing bytes");
+
+  const options: PermissionTreeJSON["options"] = { strict, resolution, actions };
+  if (separators) options.separators = separators;
+  return { version, options, allow, deny, sources };
+}
+
+/**
+ * Growable byte buffer for the binary format.
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private length = 0;
+
+  /** Writes a non-negative integer as an unsigned LEB128 varint. */
+  uint(value: number): void {
+    this.reserve(10);
+    while (value >= 0x80) {
+      this.buffer[this.length++] = (value % 0x80) | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  /** Writes a signed integer, zigzag-encoded. */
+  int(value: number): void {
+    this.uint(value < 0 ? -value * 2 - 1 : value * 2);
+  }
+
+  bytes(value: Uint8Array): void {
+    this.reserve(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
+
+/**
+ * Cursor over the binary format that fails on truncated input.
+ */
+class ByteReader {
+  constructor(
+    private readonly buffer: Uint8Array,
+    private offset: number,
+  ) {}
+
+  uint(): number {
+    let value = 0;
+    let scale = 1;
+    while (true) {
+      if (this.offset >= this.buffer.length) throw new SnapshotError("unexpected end of data");
+      const byte = this.buffer[this.offset++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) throw new SnapshotError("integer too large");
+    }
+  }
+
+  int(): number {
+    const value = this.uint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.buffer.length) throw new SnapshotError("unexpected end of data");
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+}
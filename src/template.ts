@@ -0,0 +1,80 @@
+/**
+ * Values a rule template can be bound against, e.g. `{ user: { id: "123" } }`.
+ */
+export type PermissionContext = Record<string, unknown>;
+
+/**
+ * A path segment containing `${variable}` placeholders.
+ */
+export interface SegmentTemplate {
+  /** Dotted variable paths referenced by the segment, in order. */
+  variables: string[];
+  /**
+   * Binds the segment against a context.
+   * @param missing Receives the variables that could not be resolved.
+   * @returns The bound segment, or undefined if any variable is missing.
+   */
+  bind(context: PermissionContext | undefined, missing?: Set<string>): string | undefined;
+}
+
+const PLACEHOLDER = /\$\{([^}]*)\}/g;
+
+/**
+ * Whether a segment contains a `${...}` placeholder.
+ */
+export function isTemplate(segment: string): boolean {
+  return segment.includes("${");
+}
+
+/**
+ * Compiles a template segment such as `${user.id}` or `team-${team.slug}`.
+ */
+export function compileTemplate(segment: string): SegmentTemplate {
+  const parts = segment.split(PLACEHOLDER);
+  // split() with a capture group alternates literal text and variable names
+  const variables = parts.filter((_, i) => i % 2 === 1);
+  return {
+    variables,
+    bind(context, missing) {
+      let bound = "";
+      let complete = true;
+      for (let i = 0; i < parts.length; i++) {
+        if (i % 2 === 0) {
+          bound += parts[i];
+          continue;
+        }
+        const value = resolveVariable(context, parts[i]);
+        if (value === undefined) {
+          complete = false;
+          missing?.add(parts[i]);
+        } else {
+          bound += value;
+        }
+      }
+      return complete ? bound : undefined;
+    },
+  };
+}
+
+/**
+ * Looks up a dotted variable path in the context.
+ * Only strings, finite numbers, bigints and booleans resolve; anything else counts as missing.
+ */
+export function resolveVariable(context: PermissionContext | undefined, variable: string): string | undefined {
+  if (variable === "") return undefined;
+  let value: unknown = context;
+  for (const key of variable.split(".")) {
+    if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  switch (typeof value) {
+    case "string":
+    case "bigint":
+    case "boolean":
+      return String(value);
+    case "number":
+      return Number.isFinite(value) ? String(value) : undefined;
+    default:
+      return undefined;
+  }
+}
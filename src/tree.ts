@@ -0,0 +1,874 @@
+import { actionMatcher, closeHierarchy, isActionNamespace, type ActionClosures, type ActionHierarchy, type ActionMatcher } from "./action";
+import {
+  combineInto,
+  genericContext,
+  includes,
+  narrow,
+  specialize,
+  templateBindings,
+  widen,
+  type SetOperation,
+} from "./algebra";
+import { analyzeRules, type RuleIssue } from "./analysis";
+import { permissionText, type PermissionInput } from "./builder";
+import { formatReason, type ExplanationFacts, type ReasonFormatter } from "./explanation";
+import { buildFilter, type AccessFilter } from "./filter";
+import { CompiledPermissionTree, type CompileOptions } from "./compiled";
+import { parseCondition } from "./condition";
+import { grantKey, PermissionNode, type GrantSpec } from "./node";
+import { parsePermission, PermissionSyntaxError } from "./parser";
+import {
+  DEFAULT_SEPARATORS,
+  formatRule,
+  indexOfUnescaped,
+  joinPath,
+  resolveSeparators,
+  splitPath,
+  toSegments,
+  type ResourcePathLike,
+  type Separators,
+} from "./path";
+import { isPattern } from "./pattern";
+import { checkSnapshotVersion, decodeSnapshot, encodeSnapshot, SNAPSHOT_VERSION, type PermissionTreeJSON } from "./serialize";
+import type { PermissionContext } from "./template";
+
+/**
+ * Represents a match result with explanation details.
+ */
+export interface MatchResult {
+  matched: boolean;
+  matchedRule?: string;
+  matchedSegments?: string[];
+  /** Canonical condition of a conditional rule. */
+  condition?: string;
+  /** Whether the condition held in the request context. */
+  conditionPassed?: boolean;
+  /** The rule's action as written, e.g. `*`, `read`, `read,write` or `billing:*`. */
+  matchedAction?: string;
+  /** The rule's explicit priority, if any. */
+  priority?: number;
+}
+
+/**
+ * The outcome of a conditional rule reached while explaining a decision.
+ */
+export interface ConditionResult {
+  rule: string;
+  condition: string;
+  passed: boolean;
+}
+
+/**
+ * How a request was decided.
+ * - `allow`: an allow rule granted it
+ * - `explicit-deny`: a deny rule matched and was not overridden
+ * - `implicit-deny`: no rule granted it
+ */
+export type Decision = "allow" | "explicit-deny" | "implicit-deny";
+
+/**
+ * How a rule covering the requested action fared against the path, as traced by `explain`.
+ */
+export interface RuleTrace {
+  /** The rule as reported in `matchedAllowRules` and `matchedDenyRules`. */
+  rule: string;
+  effect: "allow" | "deny";
+  /** Whether the rule's path matched the whole request path and its condition, if any, held. */
+  matched: boolean;
+  /**
+   * Number of request segments the rule's path matched: the path length when it matched the whole path,
+   * otherwise the index of the segment where it diverged.
+   */
+  segmentIndex: number;
+  /** Wildcard segments (`*`, `**`, `***`) of the rule that took part in matching, in order. */
+  wildcards: string[];
+  /** The rule's explicit priority, if any. */
+  priority?: number;
+  /** Canonical condition of a conditional rule whose path matched. */
+  condition?: string;
+  /** Whether that condition held in the request context. */
+  conditionPassed?: boolean;
+}
+
+/**
+ * Represents a permission decision explanation.
+ */
+export interface PermissionExplanation {
+  allowed: boolean;
+  decision: Decision;
+  /** Human-readable summary, written by the tree's `reasonFormatter` from the other fields. */
+  reason: string;
+  matchedAllowRules: string[];
+  matchedDenyRules: string[];
+  /**
+   * Under `most-specific-wins` and `priority`, the strongest rule on the winning side when matching allow
+   * and deny rules conflicted.
+   */
+  decidingRule?: string;
+  path: string[];
+  /** The resource path as given, or joined with the tree's separators when given as segments. */
+  resource: string;
+  action: string;
+  /** Sources (e.g. role names) that contributed each matched rule, keyed by rule. */
+  ruleSources: Record<string, string[]>;
+  /** Template variables that were needed to match a rule but missing from the context. */
+  missingVariables: string[];
+  /** Conditions of the rules reached by the path, and whether each held. */
+  conditions: ConditionResult[];
+  /** The strategy that resolved conflicts between allow and deny rules. */
+  resolution: ResolutionStrategy;
+  /**
+   * The rules covering the requested action that the check reached, allow rules first: those at the nodes
+   * the path led to, and those behind a template, pattern or `**`/`***` that was tried and failed. Rules
+   * behind a different literal segment are not reached.
+   */
+  trace: RuleTrace[];
+}
+
+/**
+ * The actions allowed on a resource, as listed by `allowedActions`.
+ */
+export interface AllowedActions {
+  /** Allowed actions named by the rules or the action hierarchy. */
+  actions: string[];
+  /** Namespace globs, e.g. `billing:*`, whose actions without a rule of their own are allowed. */
+  namespaces: string[];
+  /** Actions and namespace globs named by the rules that are not allowed. */
+  denied: string[];
+  /** Whether actions no rule names are allowed, through a `*` rule. */
+  wildcard: boolean;
+}
+
+/**
+ * The children of a resource allowing an action, as listed by `listAccessibleChildren`.
+ */
+export interface AccessibleChildren {
+  /** Allowed child segments named by the rules. */
+  children: string[];
+  /** Child segments named by the rules that are not allowed. */
+  denied: string[];
+  /**
+   * Whether children no rule names are allowed, through a wildcard or globstar.
+   * Children only a glob or `/regex/` segment matches are neither listed nor covered by this flag.
+   */
+  wildcard: boolean;
+}
+
+/**
+ * How a tree resolves an allow rule and a deny rule that both match.
+ * - `deny-overrides`: any matching deny rule wins
+ * - `allow-overrides`: any matching allow rule wins
+ * - `most-specific-wins`: the rule with the most specific path wins, comparing segments left to right
+ *   (literal beats glob/regex beats `*` beats `**`/`***`), then the action (the requested action beats an action
+ *   related through the hierarchy beats a namespace glob beats `*`); ties go to deny
+ * - `priority`: the rule with the highest `^priority` wins (default 0); ties go to deny
+ */
+export type ResolutionStrategy = "deny-overrides" | "allow-overrides" | "most-specific-wins" | "priority";
+
+/**
+ * Options for constructing a `PermissionTree`.
+ */
+export interface PermissionTreeOptions {
+  /**
+   * Reject malformed permission strings with a `PermissionSyntaxError` instead of inserting them as-is.
+   * Defaults to `false`.
+   */
+  strict?: boolean;
+  /** Conflict resolution strategy. Defaults to `deny-overrides`. */
+  resolution?: ResolutionStrategy;
+  /**
+   * Action implications, e.g. `{ manage: ["write"], write: ["read"] }`.
+   * An allow rule grants every action its action implies; a deny rule also denies every action that implies its action.
+   */
+  actions?: ActionHierarchy;
+  /**
+   * Separators to use instead of `::` and `;;` in rules and resource paths, e.g. `{ segment: "/", action: ":" }`
+   * for URL-style paths. A separator preceded by `\` belongs to its segment.
+   */
+  separators?: Partial<Separators>;
+  /**
+   * Writes the `reason` of explanations, e.g. to localize it. Defaults to `formatReason`, in English.
+   * Not serialized; pass it again when restoring a tree.
+   */
+  reasonFormatter?: ReasonFormatter;
+}
+
+/**
+ * A permission string split into the parts the tree stores.
+ */
+interface SplitRule extends GrantSpec {
+  isDenied: boolean;
+  segments: string[];
+  action: string;
+}
+
+/**
+ * Splits a permission string into its effect, path segments, action, priority and condition without
+ * validating the path or action. A condition is always parsed, since a rule cannot be applied without it.
+ * @throws ConditionSyntaxError If the condition is malformed.
+ */
+function splitRule(permission: string, separators: Separators): SplitRule {
+  const isDenied = permission.startsWith("!");
+  const clean = isDenied ? permission.slice(1) : permission;
+  const conditionIndex = clean.indexOf("??");
+  const body = conditionIndex === -1 ? clean : clean.slice(0, conditionIndex);
+  const actionIndex = indexOfUnescaped(body, separators.action);
+  const path = actionIndex === -1 ? body : body.slice(0, actionIndex);
+  const action = actionIndex === -1 ? "*" : body.slice(actionIndex + separators.action.length);
+  const rule: SplitRule = { isDenied, segments: splitPath(path, separators), action };
+  const priority = /\^(-?\d+)$/.exec(action);
+  if (priority) {
+    rule.action = action.slice(0, priority.index);
+    rule.priority = Number(priority[1]);
+  }
+  if (conditionIndex !== -1) {
+    rule.condition = parseCondition(clean.slice(conditionIndex + 2));
+  }
+  return rule;
+}
+
+/**
+ * Most requested actions whose matchers a tree keeps.
+ */
+const MAX_CACHED_MATCHERS = 256;
+
+/**
+ * A segment no rule names, standing for any child without a rule of its own.
+ */
+const UNNAMED = "\u0000";
+
+/**
+ * Formats a split rule the same way `explain` reports matched rules.
+ */
+function ruleKey(rule: SplitRule, separators: Separators): string {
+  return (rule.isDenied ? "!" : "") + formatRule(rule.segments, rule.action, separators) + grantKey(rule);
+}
+
+/**
+ * An action set with its members sorted and deduplicated, e.g. `read,write` for `write,read`; other actions as given.
+ */
+function sortActionSet(action: string): string {
+  return action.includes(",") ? [...new Set(action.split(","))].sort().join(",") : action;
+}
+
+/**
+ * Ranks how specific a matched rule is; higher compares as more specific.
+ * Path segments count left to right (literal 3, pattern 2, `*` 1, `**`/`***` 0), then the action as ranked by the matcher.
+ */
+function specificity(match: MatchResult, actions: ActionMatcher): number[] {
+  const segments = match.matchedSegments!.map(segment =>
+    segment === "***" || segment === "**" ? 0 : segment === "*" ? 1 : isPattern(segment) ? 2 : 3
+  );
+  return [...segments, actions.rank(match.matchedAction!)];
+}
+
+/**
+ * Compares two number vectors lexicographically.
+ */
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Orders rules by their text without the `!` prefix, allow rules first on ties.
+ */
+function compareRules(a: string, b: string): number {
+  const bodyA = a.startsWith("!") ? a.slice(1) : a;
+  const bodyB = b.startsWith("!") ? b.slice(1) : b;
+  if (bodyA !== bodyB) return bodyA < bodyB ? -1 : 1;
+  return a.length - b.length;
+}
+
+/**
+ * Collects the outcomes of conditional rules among match results.
+ * @param prefix Prefix for the reported rule, `!` for deny matches.
+ */
+function conditionResults(matches: MatchResult[], prefix: string): ConditionResult[] {
+  return matches
+    .filter(m => m.condition !== undefined)
+    .map(m => ({ rule: prefix + m.matchedRule!, condition: m.condition!, passed: m.conditionPassed! }));
+}
+
+/**
+ * The main tree that checks permission inclusion and exclusion.
+ *
+ * @example
+ * ```ts
+ * const tree = new PermissionTree(["users::123;;read", "!users::123::posts;;read"])
+ * tree.isAllowed("users::123", "read") // true
+ * tree.isAllowed("users::123::posts", "read") // false
+ * ```
+ */
+export class PermissionTree {
+  private allowTree = new PermissionNode();
+  private denyTree = new PermissionNode();
+  private readonly strict: boolean;
+  private readonly resolution: ResolutionStrategy;
+  private readonly actionHierarchy: ActionHierarchy;
+  private readonly actionClosures: ActionClosures;
+  private readonly separators: Separators;
+  private reasonFormatter?: ReasonFormatter;
+  /** Number of insertions per source, keyed by rule. */
+  private sources = new Map<string, Map<string, number>>();
+  /** Action matchers by requested action; they only depend on the immutable hierarchy. */
+  private matchers = new Map<string, { allow: ActionMatcher; deny: ActionMatcher }>();
+
+  /**
+   * Constructs the permission tree from a list of permission strings.
+   * @param permissions List of permission strings or `RuleBuilder`s.
+   * @param options Tree options.
+   * @throws PermissionSyntaxError In strict mode, if a permission string is malformed.
+   * @throws TypeError If the separators are invalid.
+   */
+  constructor(permissions: readonly PermissionInput[], options: PermissionTreeOptions = {}) {
+    this.separators = resolveSeparators(options.separators);
+    this.strict = options.strict ?? false;
+    this.reasonFormatter = options.reasonFormatter;
+    this.resolution = options.resolution ?? "deny-overrides";
+    this.actionHierarchy = options.actions ?? {};
+    this.actionClosures = closeHierarchy(this.actionHierarchy);
+    permissions.forEach((perm, index) => this.insertRule(this.splitRule(perm, index)));
+  }
+
+  /**
+   * Adds a single permission rule to the tree.
+   * Adding the same rule twice requires removing it twice.
+   * @param permission Permission string, e.g. `users::123;;read` or `!users::123;;write`, or a `RuleBuilder`.
+   * @param source Optional origin of the rule (e.g. a role name), reported by `explain`.
+   * @throws PermissionSyntaxError In strict mode, if the permission string is malformed.
+   */
+  addRule(permission: PermissionInput, source?: string): void {
+    const rule = this.splitRule(permission);
+    this.insertRule(rule);
+    if (source !== undefined) {
+      const key = ruleKey(rule, this.separators);
+      const counts = this.sources.get(key) ?? new Map<string, number>();
+      counts.set(source, (counts.get(source) ?? 0) + 1);
+      this.sources.set(key, counts);
+    }
+  }
+
+  /**
+   * Removes one occurrence of a permission rule from the tree.
+   * @param permission Permission string exactly as it was added, or a `RuleBuilder`.
+   * @param source If given, only an occurrence added by this source is removed.
+   * @returns True if the rule was present and removed.
+   */
+  removeRule(permission: PermissionInput, source?: string): boolean {
+    const rule = this.splitRule(permission);
+    const key = ruleKey(rule, this.separators);
+    const counts = this.sources.get(key);
+    if (source !== undefined && !counts?.has(source)) return false;
+
+    const targetTree = rule.isDenied ? this.denyTree : this.allowTree;
+    if (!targetTree.remove(rule.segments, rule.action, rule)) return false;
+
+    if (source !== undefined) {
+      const count = counts!.get(source)!;
+      if (count > 1) {
+        counts!.set(source, count - 1);
+      } else {
+        counts!.delete(source);
+      }
+    }
+    if (counts && (counts.size === 0 || !targetTree.has(rule.segments, rule.action, rule))) {
+      this.sources.delete(key);
+    }
+    return true;
+  }
+
+  /**
+   * Replaces every rule in the tree with the given list.
+   * @param permissions List of permission strings or `RuleBuilder`s.
+   */
+  replaceRules(permissions: readonly PermissionInput[]): void {
+    const rules = permissions.map((perm, index) => this.splitRule(perm, index));
+    this.allowTree = new PermissionNode();
+    this.denyTree = new PermissionNode();
+    this.sources.clear();
+    for (const rule of rules) {
+      this.insertRule(rule);
+    }
+  }
+
+  /**
+   * Checks whether the exact rule is present in the tree.
+   * Unlike `isAllowed`, no wildcard matching is performed.
+   * @param permission Permission string or `RuleBuilder`.
+   * @returns True if the rule was added and not yet removed.
+   */
+  has(permission: PermissionInput): boolean {
+    const rule = this.splitRule(permission);
+    const targetTree = rule.isDenied ? this.denyTree : this.allowTree;
+    return targetTree.has(rule.segments, rule.action, rule);
+  }
+
+  /**
+   * Lists the tree's rules in canonical form: deduplicated, with an explicit action, sorted action sets,
+   * canonical conditions and no `^0` priorities, sorted by path and action with each allow rule before its deny counterpart.
+   * @returns Permission strings that build an equivalent tree.
+   */
+  toRules(): string[] {
+    const allow = this.allowTree.collectRules().map(rule => ruleKey({ ...rule, action: sortActionSet(rule.action), isDenied: false }, this.separators));
+    const deny = this.denyTree.collectRules().map(rule => ruleKey({ ...rule, action: sortActionSet(rule.action), isDenied: true }, this.separators));
+    // Sets written in different orders are stored as separate rules but are written the same
+    return [...new Set([...allow, ...deny])].sort(compareRules);
+  }
+
+  /**
+   * Reports duplicate rules, rules subsumed by another rule, allow rules shadowed by a deny rule and
+   * deny rules that never intersect an allow rule, each with the rule responsible.
+   * @returns Issues in the order of `toRules()`.
+   */
+  analyze(): RuleIssue[] {
+    const rules = [
+      ...this.allowTree.collectRules().map(rule => ({ ...rule, isDenied: false })),
+      ...this.denyTree.collectRules().map(rule => ({ ...rule, isDenied: true })),
+    ]
+      .map(rule => ({ ...rule, rule: ruleKey(rule, this.separators) }))
+      .sort((a, b) => compareRules(a.rule, b.rule));
+    return analyzeRules(rules, this.resolution, this.actionClosures);
+  }
+
+  /**
+   * Serializes the tree's structure, options and rule sources.
+   * Called by `JSON.stringify`; restore the result with `PermissionTree.fromJSON`.
+   */
+  toJSON(): PermissionTreeJSON {
+    const options: PermissionTreeJSON["options"] = { strict: this.strict, resolution: this.resolution, actions: this.actionHierarchy };
+    if (this.separators !== DEFAULT_SEPARATORS) options.separators = { ...this.separators };
+    return {
+      version: SNAPSHOT_VERSION,
+      options,
+      allow: this.allowTree.toJSON(),
+      deny: this.denyTree.toJSON(),
+      sources: [...this.sources].map(([rule, counts]) => [rule, [...counts]]),
+    };
+  }
+
+  /**
+   * Restores a tree serialized by `toJSON` without re-parsing its rules.
+   * @throws SnapshotError If the value was written by an unsupported version.
+   */
+  static fromJSON(json: PermissionTreeJSON): PermissionTree {
+    checkSnapshotVersion(json);
+    const tree = new PermissionTree([], json.options);
+    tree.allowTree = PermissionNode.fromJSON(json.allow);
+    tree.denyTree = PermissionNode.fromJSON(json.deny);
+    tree.sources = new Map(json.sources.map(([rule, counts]) => [rule, new Map(counts)]));
+    return tree;
+  }
+
+  /**
+   * Serializes the tree into a compact binary snapshot with a version header, e.g. for a file or KV store.
+   */
+  toSnapshot(): Uint8Array {
+    return encodeSnapshot(this.toJSON());
+  }
+
+  /**
+   * Restores a tree from a binary snapshot written by `toSnapshot`.
+   * @throws SnapshotError If the bytes are not a snapshot, are truncated or were written by an unsupported version.
+   */
+  static fromSnapshot(snapshot: Uint8Array): PermissionTree {
+    return PermissionTree.fromJSON(decodeSnapshot(snapshot));
+  }
+
+  /**
+   * Compiles a frozen copy of the tree into an array-backed automaton with a decision cache, for workloads
+   * that build a tree once and check it many times. Later changes to this tree do not affect the result.
+   * @param options Size of the decision cache.
+   */
+  compile(options?: CompileOptions): CompiledPermissionTree {
+    const tree = PermissionTree.fromJSON(this.toJSON());
+    tree.reasonFormatter = this.reasonFormatter;
+    return new CompiledPermissionTree(
+      {
+        tree,
+        allow: tree.allowTree,
+        deny: tree.denyTree,
+        resolution: tree.resolution,
+        separators: tree.separators,
+        matchers: action => tree.actionMatchers(action),
+      },
+      options
+    );
+  }
+
+  /**
+   * Builds a tree allowing every request either tree allows.
+   * The result uses the `priority` strategy and names actions explicitly rather than through a hierarchy.
+   * @param context Binds templates and evaluates conditions; without one, templates stand for values no
+   *   rule names and conditional rules are rejected.
+   * @throws SetOperationError If either tree has a conditional rule and no context is given.
+   */
+  union(other: PermissionTree, context?: PermissionContext): PermissionTree {
+    return this.combine(other, (a, b) => a || b, context);
+  }
+
+  /**
+   * Builds a tree allowing the requests both trees allow, e.g. an API key's scopes within its owner's access.
+   * See `union` for the form of the result and the role of the context.
+   * @throws SetOperationError If either tree has a conditional rule and no context is given.
+   */
+  intersect(other: PermissionTree, context?: PermissionContext): PermissionTree {
+    return this.combine(other, (a, b) => a && b, context);
+  }
+
+  /**
+   * Builds a tree allowing the requests this tree allows and `other` does not.
+   * See `union` for the form of the result and the role of the context.
+   * @throws SetOperationError If either tree has a conditional rule and no context is given.
+   */
+  subtract(other: PermissionTree, context?: PermissionContext): PermissionTree {
+    return this.combine(other, (a, b) => a && !b, context);
+  }
+
+  /**
+   * Checks that `other` allows every request this tree allows, e.g. that a delegated token does not
+   * escalate beyond its issuer.
+   * With a context the check holds for that context. Without one it holds for every context: conditional
+   * allows of this tree count as granted and conditional denies of `other` as applying, so a `false` may be
+   * overly cautious, and templates are tried with every value the rules can tell apart.
+   * @throws SetOperationError If no context is given and the templates take too many distinguishable values.
+   */
+  isSubsetOf(other: PermissionTree, context?: PermissionContext): boolean {
+    const [wide, narrowed] = context === undefined ? [widen(this.toJSON()), narrow(other.toJSON())] : [this.toJSON(), other.toJSON()];
+    return (context === undefined ? templateBindings([wide, narrowed]) : [context]).every(binding => {
+      const trees = [specialize(wide, binding), specialize(narrowed, binding)];
+      const [a, b] = trees.map(json => PermissionTree.fromJSON(json));
+      return includes(a, b, trees, binding);
+    });
+  }
+
+  private combine(other: PermissionTree, operation: SetOperation, context?: PermissionContext): PermissionTree {
+    const trees = [this, other].map(tree => specialize(tree.toJSON(), context));
+    const [a, b] = trees.map(json => PermissionTree.fromJSON(json));
+    const result = new PermissionTree([], { resolution: "priority" });
+    combineInto(result, a, b, trees, operation, context ?? genericContext(trees));
+    return result;
+  }
+
+  private insertRule(rule: SplitRule): void {
+    const targetTree = rule.isDenied ? this.denyTree : this.allowTree;
+    targetTree.insert(rule.segments, rule.action, rule);
+  }
+
+  /**
+   * Splits a permission string, validating it first in strict mode.
+   * @param index Position of the permission in its list, reported in syntax errors.
+   */
+  private splitRule(permission: PermissionInput, index?: number): SplitRule {
+    const text = permissionText(permission, this.separators);
+    if (!this.strict) return splitRule(text, this.separators);
+    try {
+      const parsed = parsePermission(text, this.separators);
+      return {
+        isDenied: parsed.effect === "deny",
+        segments: parsed.segments.map(segment => segment.value),
+        action: parsed.action,
+        condition: parsed.condition,
+        priority: parsed.priority,
+      };
+    } catch (error) {
+      if (error instanceof PermissionSyntaxError && index !== undefined) throw error.withIndex(index);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the action matchers for a request: allow rules apply through the actions they imply,
+   * deny rules through the actions that imply them.
+   */
+  private actionMatchers(action: string): { allow: ActionMatcher; deny: ActionMatcher } {
+    let matchers = this.matchers.get(action);
+    if (!matchers) {
+      // Requested actions may come from user input; bound the cache rather than grow with it
+      if (this.matchers.size >= MAX_CACHED_MATCHERS) this.matchers.clear();
+      matchers = {
+        allow: actionMatcher(action, this.actionClosures.impliedBy.get(action)),
+        deny: actionMatcher(action, this.actionClosures.implies.get(action)),
+      };
+      this.matchers.set(action, matchers);
+    }
+    return matchers;
+  }
+
+  /**
+   * Checks whether access is allowed based on provided resource and action.
+   * @param resourcePath Resource path in `::` segments, its segments, or a parsed `ResourcePath`.
+   * @param action Requested action.
+   * @param context Values for `${...}` rule templates and `??` rule conditions; rules with a missing
+   *   template variable never match.
+   * @returns True if access is allowed.
+   */
+  isAllowed(resourcePath: ResourcePathLike, action: string, context?: PermissionContext): boolean {
+    const segments = toSegments(resourcePath, this.separators);
+    const actions = this.actionMatchers(action);
+    switch (this.resolution) {
+      case "deny-overrides":
+        if (this.denyTree.match(segments, actions.deny, context)) return false;
+        return this.allowTree.match(segments, actions.allow, context);
+      case "allow-overrides":
+        return this.allowTree.match(segments, actions.allow, context);
+      default: {
+        const allowMatches = this.allowTree.matchWithDetails(segments, actions.allow, [], context, undefined, 0, this.separators).filter(m => m.matched);
+        if (allowMatches.length === 0) return false;
+        const denyMatches = this.denyTree.matchWithDetails(segments, actions.deny, [], context, undefined, 0, this.separators).filter(m => m.matched);
+        return this.resolveConflict(allowMatches, denyMatches, actions).allowed;
+      }
+    }
+  }
+
+  /**
+   * Checks one action against many resource paths at once, e.g. to filter a list.
+   * Under `deny-overrides` and `allow-overrides` the paths share one traversal of the tree, so paths with a
+   * common prefix walk it once; the ranked strategies check each path on its own.
+   * @param resourcePaths Resource paths in `::` segments, their segments, or parsed `ResourcePath`s.
+   * @param action Requested action.
+   * @param context Values for `${...}` rule templates and `??` rule conditions.
+   * @returns Whether each path is allowed, in order.
+   */
+  isAllowedMany(resourcePaths: readonly ResourcePathLike[], action: string, context?: PermissionContext): boolean[] {
+    if (this.resolution !== "deny-overrides" && this.resolution !== "allow-overrides") {
+      return resourcePaths.map(path => this.isAllowed(path, action, context));
+    }
+    const paths = resourcePaths.map(path => toSegments(path, this.separators));
+    const actions = this.actionMatchers(action);
+    const allowed = new Array<boolean>(paths.length).fill(false);
+    if (this.resolution === "allow-overrides") {
+      this.allowTree.matchMany(paths, paths.map((_, index) => [index, 0]), actions.allow, context, allowed);
+      return allowed;
+    }
+    const denied = new Array<boolean>(paths.length).fill(false);
+    this.denyTree.matchMany(paths, paths.map((_, index) => [index, 0]), actions.deny, context, denied);
+    // Denied paths are left out of the allow traversal
+    const pending: [number, number][] = [];
+    denied.forEach((isDenied, index) => {
+      if (!isDenied) pending.push([index, 0]);
+    });
+    this.allowTree.matchMany(paths, pending, actions.allow, context, allowed);
+    return allowed;
+  }
+
+  /**
+   * Keeps the items whose resource path allows an action, sharing traversal like `isAllowedMany`.
+   * @param items Items to filter, e.g. records loaded from a database.
+   * @param toPath Resource path of an item, e.g. `post => "posts::" + post.id`.
+   * @param action Requested action.
+   * @param context Values for `${...}` rule templates and `??` rule conditions.
+   */
+  filterAllowed<T>(items: T[], toPath: (item: T) => ResourcePathLike, action: string, context?: PermissionContext): T[] {
+    const allowed = this.isAllowedMany(items.map(toPath), action, context);
+    return items.filter((_, index) => allowed[index]);
+  }
+
+  /**
+   * Decides between matching allow and deny rules for the ranked strategies.
+   * @returns The decision and the strongest rule on the winning side.
+   */
+  private resolveConflict(
+    allowMatches: MatchResult[],
+    denyMatches: MatchResult[],
+    actions: { allow: ActionMatcher; deny: ActionMatcher }
+  ): { allowed: boolean; winner: MatchResult } {
+    const rank = (match: MatchResult, matcher: ActionMatcher) =>
+      this.resolution === "priority" ? [match.priority ?? 0] : specificity(match, matcher);
+    const strongest = (matches: MatchResult[], matcher: ActionMatcher) =>
+      matches.reduce((best, match) => compareRanks(rank(match, matcher), rank(best, matcher)) > 0 ? match : best);
+    const allow = strongest(allowMatches, actions.allow);
+    if (denyMatches.length === 0) return { allowed: true, winner: allow };
+    const deny = strongest(denyMatches, actions.deny);
+    return compareRanks(rank(allow, actions.allow), rank(deny, actions.deny)) > 0
+      ? { allowed: true, winner: allow }
+      : { allowed: false, winner: deny };
+  }
+
+  /**
+   * Lists what can be done with a resource, e.g. to decide which buttons to show.
+   * Every action the rules or the action hierarchy name is checked, deny rules included.
+   * @param resourcePath Resource path in `::` segments, its segments, or a parsed `ResourcePath`.
+   * @param context Values for `${...}` rule templates and `??` rule conditions.
+   */
+  allowedActions(resourcePath: ResourcePathLike, context?: PermissionContext): AllowedActions {
+    const path = toSegments(resourcePath, this.separators);
+    const named = new Set<string>();
+    this.allowTree.collectActions(named);
+    this.denyTree.collectActions(named);
+    for (const [action, implied] of Object.entries(this.actionHierarchy)) {
+      named.add(action);
+      implied.forEach(name => named.add(name));
+    }
+    named.delete("*");
+
+    const result: AllowedActions = { actions: [], namespaces: [], denied: [], wildcard: this.isAllowed(path, "*", context) };
+    for (const action of [...named].sort()) {
+      // A namespace glob requested as an action stands for the namespace's actions without a rule of their own
+      if (!this.isAllowed(path, action, context)) {
+        result.denied.push(action);
+      } else {
+        (isActionNamespace(action) ? result.namespaces : result.actions).push(action);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Lists the children of a resource that allow an action, e.g. to decide which entries to show.
+   * Children are the segments rules name directly below the path, reached through wildcards, globstars and
+   * templates as well as literals.
+   * @param resourcePath Resource path in `::` segments, its segments, or a parsed `ResourcePath`; `""` or `[]` for the root.
+   * @param action Requested action.
+   * @param context Values for `${...}` rule templates and `??` rule conditions.
+   */
+  listAccessibleChildren(resourcePath: ResourcePathLike, action: string, context?: PermissionContext): AccessibleChildren {
+    const segments = resourcePath === "" ? [] : toSegments(resourcePath, this.separators);
+    const named = new Set<string>();
+    this.allowTree.collectChildSegments(segments, context, named);
+    this.denyTree.collectChildSegments(segments, context, named);
+
+    const childPath = (child: string) => [...segments, child];
+    const result: AccessibleChildren = { children: [], denied: [], wildcard: this.isAllowed(childPath(UNNAMED), action, context) };
+    for (const child of [...named].sort()) {
+      (this.isAllowed(childPath(child), action, context) ? result.children : result.denied).push(child);
+    }
+    return result;
+  }
+
+  /**
+   * Describes the children of a resource that allow an action as a filter, e.g. to fetch only readable records
+   * with `toSql` or `toMongoQuery`. The filter applies to the segment directly below the path.
+   * @param resourcePath Resource path in `::` segments, its segments, or a parsed `ResourcePath`; `""` or `[]` for the root.
+   * @param action Requested action.
+   * @param context Values for `${...}` rule templates and `??` rule conditions.
+   * @throws FilterError If a glob or `/regex/` child cannot be written with literals and prefixes.
+   *
+   * @example
+   * ```ts
+   * const tree = new PermissionTree(["projects::*;;read", "!projects::secret;;read"])
+   * tree.toFilter("projects", "read") // { op: "notIn", values: ["secret"] }
+   * ```
+   */
+  toFilter(resourcePath: ResourcePathLike, action: string, context?: PermissionContext): AccessFilter {
+    const segments = resourcePath === "" ? [] : toSegments(resourcePath, this.separators);
+    const named = new Set<string>();
+    const patterns = new Set<string>();
+    this.allowTree.collectChildSegments(segments, context, named, patterns);
+    this.denyTree.collectChildSegments(segments, context, named, patterns);
+    return buildFilter(named, patterns, child => this.isAllowed([...segments, child], action, context));
+  }
+
+  /**
+   * Explains why a permission is allowed or denied.
+   * @param resourcePath Resource path in `::` segments, its segments, or a parsed `ResourcePath`.
+   * @param action Requested action.
+   * @param context Values for `${...}` rule templates and `??` rule conditions.
+   * @returns Detailed explanation of the permission decision.
+   */
+  explain(resourcePath: ResourcePathLike, action: string, context?: PermissionContext): PermissionExplanation {
+    const segments = toSegments(resourcePath, this.separators);
+    
+    // Get all matching allow and deny rules
+    const actions = this.actionMatchers(action);
+    const missing = new Set<string>();
+    const allowMatches = this.allowTree.matchWithDetails(segments, actions.allow, [], context, missing, 0, this.separators);
+    const denyMatches = this.denyTree.matchWithDetails(segments, actions.deny, [], context, missing, 0, this.separators);
+    const missingVariables = [...missing];
+    
+    const matchedAllowRules = allowMatches
+      .filter(m => m.matched)
+      .map(m => m.matchedRule!)
+      .filter(Boolean);
+    
+    const matchedDenyRules = denyMatches
+      .filter(m => m.matched)
+      .map(m => "!" + m.matchedRule!)
+      .filter(Boolean);
+    
+    const hasDenyMatch = matchedDenyRules.length > 0;
+    const hasAllowMatch = matchedAllowRules.length > 0;
+    
+    let allowed: boolean;
+    let decidingRule: string | undefined;
+    if (hasDenyMatch && hasAllowMatch && this.resolution !== "deny-overrides") {
+      if (this.resolution === "allow-overrides") {
+        allowed = true;
+      } else {
+        const decision = this.resolveConflict(allowMatches.filter(m => m.matched), denyMatches.filter(m => m.matched), actions);
+        allowed = decision.allowed;
+        decidingRule = (allowed ? "" : "!") + decision.winner.matchedRule;
+      }
+    } else {
+      allowed = !hasDenyMatch && hasAllowMatch;
+    }
+    
+    const ruleSources: Record<string, string[]> = {};
+    for (const rule of [...matchedAllowRules, ...matchedDenyRules]) {
+      const counts = this.sources.get(rule);
+      if (counts) ruleSources[rule] = [...counts.keys()];
+    }
+    
+    const steps = new Map<string, RuleTrace>();
+    this.allowTree.trace({ segments, actions: actions.allow, context, separators: this.separators, effect: "allow", steps });
+    this.denyTree.trace({ segments, actions: actions.deny, context, separators: this.separators, effect: "deny", steps });
+    
+    const facts: ExplanationFacts = {
+      allowed,
+      decision: allowed ? "allow" : hasDenyMatch ? "explicit-deny" : "implicit-deny",
+      matchedAllowRules,
+      matchedDenyRules,
+      path: [...segments],
+      resource: typeof resourcePath === "string" ? resourcePath : joinPath(segments, this.separators),
+      action,
+      ruleSources,
+      missingVariables,
+      conditions: [...conditionResults(allowMatches, ""), ...conditionResults(denyMatches, "!")],
+      resolution: this.resolution,
+      trace: [...steps.values()],
+    };
+    if (decidingRule !== undefined) facts.decidingRule = decidingRule;
+    return { ...facts, reason: (this.reasonFormatter ?? formatReason)(facts) };
+  }
+}
+
+/**
+ * Helper function to explain permission decisions for a given tree and permission.
+ * @param tree The PermissionTree to evaluate against.
+ * @param resourcePath Resource path in `::` segments, its segments, or a parsed `ResourcePath`.
+ * @param action Requested action.
+ * @param context Values for `${...}` rule templates and `??` rule conditions.
+ * @returns Detailed explanation of the permission decision.
+ */
+export function explainPermission(
+  tree: PermissionTree,
+  resourcePath: ResourcePathLike,
+  action: string,
+  context?: PermissionContext
+): PermissionExplanation {
+  return tree.explain(resourcePath, action, context);
+}
+
+/**
+ * Rewrites a rule list in the canonical form of `PermissionTree.toRules`.
+ * @param permissions List of permission strings or `RuleBuilder`s.
+ * @param options Tree options; in strict mode malformed rules throw.
+ * @returns The canonical, sorted and deduplicated rules.
+ * @throws PermissionSyntaxError In strict mode, if a permission string is malformed.
+ */
+export function normalize(permissions: readonly PermissionInput[], options?: PermissionTreeOptions): string[] {
+  return new PermissionTree(permissions, options).toRules();
+}
+
+/**
+ * Analyzes a rule list without keeping the tree, see `PermissionTree.analyze`.
+ * Rules are reported in canonical form.
+ * @param permissions List of permission strings or `RuleBuilder`s.
+ * @param options Tree options; the resolution strategy and action hierarchy affect the analysis.
+ * @throws PermissionSyntaxError In strict mode, if a permission string is malformed.
+ */
+export function lint(permissions: readonly PermissionInput[], options?: PermissionTreeOptions): RuleIssue[] {
+  return new PermissionTree(permissions, options).analyze();
+}
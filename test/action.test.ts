@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, parsePermission, PermissionSyntaxError } from "../src"
+
+const hierarchy = { manage: ["write", "delete"], write: ["read"] }
+
+describe("Action Hierarchies", () => {
+  it("grants every action an allowed action implies, transitively", () => {
+    const tree = new PermissionTree(["posts::*;;manage", "comments::*;;write"], { actions: hierarchy })
+    expect(tree.isAllowed("posts::1", "write")).toBe(true)
+    expect(tree.isAllowed("posts::1", "read")).toBe(true)
+    expect(tree.isAllowed("posts::1", "delete")).toBe(true)
+    expect(tree.isAllowed("comments::1", "read")).toBe(true)
+    expect(tree.isAllowed("comments::1", "delete")).toBe(false)
+    expect(tree.isAllowed("comments::1", "manage")).toBe(false)
+  })
+
+  it("denies every action that implies a denied action", () => {
+    const tree = new PermissionTree(["posts::*;;manage", "!posts::archived;;write"], { actions: hierarchy })
+    expect(tree.isAllowed("posts::archived", "write")).toBe(false)
+    expect(tree.isAllowed("posts::archived", "manage")).toBe(false)
+    expect(tree.isAllowed("posts::archived", "read")).toBe(true)
+    expect(tree.isAllowed("posts::archived", "delete")).toBe(true)
+  })
+
+  it("leaves actions opaque without a hierarchy", () => {
+    const tree = new PermissionTree(["posts::*;;manage"])
+    expect(tree.isAllowed("posts::1", "read")).toBe(false)
+  })
+
+  it("tolerates cycles", () => {
+    const tree = new PermissionTree(["posts::*;;edit"], { actions: { edit: ["update"], update: ["edit"] } })
+    expect(tree.isAllowed("posts::1", "update")).toBe(true)
+  })
+
+  it("reports the implying rule in explain()", () => {
+    const tree = new PermissionTree(["posts::*;;manage"], { actions: hierarchy })
+    const explanation = tree.explain("posts::1", "read")
+    expect(explanation.allowed).toBe(true)
+    expect(explanation.matchedAllowRules).toEqual(["posts::*;;manage"])
+  })
+
+  it("prefers the rule naming the requested action under most-specific-wins", () => {
+    const tree = new PermissionTree(["!posts::1;;manage", "posts::1;;read"], {
+      actions: hierarchy,
+      resolution: "most-specific-wins",
+    })
+    expect(tree.isAllowed("posts::1", "read")).toBe(true)
+    expect(tree.isAllowed("posts::1", "manage")).toBe(false)
+  })
+})
+
+describe("Action Namespaces and Sets", () => {
+  it("matches namespace globs", () => {
+    const tree = new PermissionTree(["accounts::*;;billing:*", "!accounts::closed;;billing:refund"])
+    expect(tree.isAllowed("accounts::1", "billing:refund")).toBe(true)
+    expect(tree.isAllowed("accounts::1", "billing:invoices:create")).toBe(true)
+    expect(tree.isAllowed("accounts::1", "billing")).toBe(false)
+    expect(tree.isAllowed("accounts::1", "support:reply")).toBe(false)
+    expect(tree.isAllowed("accounts::closed", "billing:refund")).toBe(false)
+    expect(tree.isAllowed("accounts::closed", "billing:view")).toBe(true)
+  })
+
+  it("matches any action of a set", () => {
+    const tree = new PermissionTree(["posts::*;;read,list", "!posts::secret;;read,list"])
+    expect(tree.isAllowed("posts::1", "read")).toBe(true)
+    expect(tree.isAllowed("posts::1", "list")).toBe(true)
+    expect(tree.isAllowed("posts::1", "write")).toBe(false)
+    expect(tree.isAllowed("posts::secret", "list")).toBe(false)
+    expect(tree.explain("posts::1", "list").matchedAllowRules).toEqual(["posts::*;;read,list"])
+  })
+
+  it("combines sets, namespaces and hierarchies", () => {
+    const tree = new PermissionTree(["docs::*;;write,billing:*"], { actions: hierarchy })
+    expect(tree.isAllowed("docs::1", "read")).toBe(true)
+    expect(tree.isAllowed("docs::1", "billing:view")).toBe(true)
+    expect(tree.isAllowed("docs::1", "delete")).toBe(false)
+  })
+
+  it("removes set rules exactly as written", () => {
+    const tree = new PermissionTree(["posts::*;;read,list"])
+    expect(tree.removeRule("posts::*;;list,read")).toBe(false)
+    expect(tree.removeRule("posts::*;;read,list")).toBe(true)
+    expect(tree.isAllowed("posts::1", "read")).toBe(false)
+  })
+
+  it("does not let a requested * match named actions", () => {
+    const tree = new PermissionTree(["posts::*;;billing:*"])
+    expect(tree.isAllowed("posts::1", "*")).toBe(false)
+  })
+})
+
+describe("Action parsing", () => {
+  it("classifies actions", () => {
+    expect(parsePermission("a;;billing:*").actionKind).toBe("namespace")
+    const set = parsePermission("a;;read,write")
+    expect(set.actionKind).toBe("set")
+    expect(set.actions).toEqual(["read", "write"])
+  })
+
+  it("rejects malformed actions", () => {
+    const column = (rule: string) => {
+      try {
+        parsePermission(rule)
+      } catch (error) {
+        expect(error).toBeInstanceOf(PermissionSyntaxError)
+        return (error as PermissionSyntaxError).column
+      }
+    }
+    expect(column("a;;read,,write")).toBe(9)
+    expect(column("a;;read,*")).toBe(9)
+    expect(column("a;;bill*:*")).toBe(8)
+    expect(column("a;;:*")).toBe(5)
+  })
+})
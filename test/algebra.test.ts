@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, SetOperationError } from "../src"
+
+const requests: [string, string][] = [
+  ["projects", "read"],
+  ["projects::alpha", "read"],
+  ["projects::alpha", "write"],
+  ["projects::alpha", "delete"],
+  ["projects::alpha::docs", "read"],
+  ["projects::alpha::docs", "delete"],
+  ["projects::secret", "read"],
+  ["projects::secret::keys", "read"],
+  ["projects::secret::keys", "delete"],
+  ["projects::beta::docs", "write"],
+  ["billing::invoices", "billing:pay"],
+  ["users", "read"],
+]
+
+const expectDecisions = (result: PermissionTree, decide: (path: string, action: string) => boolean) => {
+  for (const [path, action] of requests) {
+    expect([path, action, result.isAllowed(path, action)]).toEqual([path, action, decide(path, action)])
+  }
+}
+
+describe("Set Algebra", () => {
+  const user = new PermissionTree(["projects::***;;*", "!projects::secret::***;;*", "billing::*;;billing:*"])
+  const key = new PermissionTree(["projects::*;;read", "projects::alpha::***;;*", "projects::secret::***;;read"])
+
+  it("intersects trees", () => {
+    const scoped = user.intersect(key)
+    expectDecisions(scoped, (path, action) => user.isAllowed(path, action) && key.isAllowed(path, action))
+    expect(scoped.isAllowed("projects::secret::keys", "read")).toBe(false)
+    expect(scoped.isAllowed("projects::alpha::docs", "delete")).toBe(true)
+  })
+
+  it("unites trees", () => {
+    const combined = user.union(key)
+    expectDecisions(combined, (path, action) => user.isAllowed(path, action) || key.isAllowed(path, action))
+    expect(combined.isAllowed("projects::secret::keys", "read")).toBe(true)
+  })
+
+  it("subtracts trees", () => {
+    const rest = user.subtract(key)
+    expectDecisions(rest, (path, action) => user.isAllowed(path, action) && !key.isAllowed(path, action))
+    expect(rest.isAllowed("projects::beta::docs", "write")).toBe(true)
+    expect(rest.isAllowed("projects::alpha::docs", "write")).toBe(false)
+  })
+
+  it("builds results with few rules", () => {
+    expect(new PermissionTree(["a::*;;read"]).union(new PermissionTree(["a::b;;write", "!a::c;;read"])).toRules()).toEqual([
+      "a::*;;read^1",
+      "a::b;;write^3",
+    ])
+    expect(new PermissionTree(["a::*;;*"]).intersect(new PermissionTree(["b::*;;*"])).toRules()).toEqual([])
+  })
+
+  it("keeps *** and ** apart", () => {
+    const result = new PermissionTree(["a::***;;read"]).union(new PermissionTree(["a::**;;write"]))
+    expect(result.isAllowed("a", "read")).toBe(false)
+    expect(result.isAllowed("a", "write")).toBe(true)
+    expect(result.isAllowed("a::b::c", "read")).toBe(true)
+  })
+
+  it("intersects paths with ** in the middle", () => {
+    expect(new PermissionTree(["**::a;;*"]).intersect(new PermissionTree(["a::**;;write"])).isAllowed("a::a::a", "write")).toBe(true)
+    const a = new PermissionTree(["a::**::a;;*", "a::**;;write", "!**::c;;write"])
+    const b = new PermissionTree(["!a::**;;*"])
+    expect(a.union(b).isAllowed("a::a::c", "write")).toBe(false)
+    expect(a.union(b).isAllowed("a::x::y::a", "write")).toBe(true)
+    expect(new PermissionTree(["*;;read"]).union(new PermissionTree(["**;;write"])).isAllowed("a::b", "read")).toBe(false)
+  })
+
+  it("decides every path as both trees do, for random trees", () => {
+    let seed = 7
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648
+      return Math.floor(seed / 65536) % n
+    }
+    const pick = <T>(values: T[]) => values[random(values.length)]
+    const randomTree = () => new PermissionTree(Array.from({ length: 1 + random(4) }, () => {
+      const segments = Array.from({ length: 1 + random(3) }, () => pick(["a", "b", "*", "**", "***", "{a,c}"]))
+      return `${pick(["", "", "!"])}${segments.join("::")};;${pick(["read", "write", "*"])}`
+    }))
+    const paths: string[] = []
+    const extend = (prefix: string[]) => {
+      if (prefix.length > 0) paths.push(prefix.join("::"))
+      if (prefix.length < 4) for (const segment of ["a", "b", "c"]) extend([...prefix, segment])
+    }
+    extend([])
+
+    const mismatches: string[] = []
+    for (let round = 0; round < 150; round++) {
+      const a = randomTree()
+      const b = randomTree()
+      const results: [string, PermissionTree, (x: boolean, y: boolean) => boolean][] = [
+        ["union", a.union(b), (x, y) => x || y],
+        ["intersect", a.intersect(b), (x, y) => x && y],
+        ["subtract", a.subtract(b), (x, y) => x && !y],
+      ]
+      for (const [operation, result, combine] of results) {
+        for (const path of paths) {
+          for (const action of ["read", "write"]) {
+            if (result.isAllowed(path, action) !== combine(a.isAllowed(path, action), b.isAllowed(path, action))) {
+              mismatches.push(`${operation} of ${a.toRules().join(" ")} and ${b.toRules().join(" ")}: ${path};;${action}`)
+            }
+          }
+        }
+      }
+    }
+    expect(mismatches).toEqual([])
+  })
+
+  it("follows each tree's resolution strategy and action hierarchy", () => {
+    const editor = new PermissionTree(["docs::*;;manage", "!docs::locked;;read"], {
+      actions: { manage: ["write"], write: ["read"] },
+      resolution: "allow-overrides",
+    })
+    const reader = new PermissionTree(["docs::***;;read"])
+    const both = editor.intersect(reader)
+    expect(both.isAllowed("docs::locked", "read")).toBe(true)
+    expect(both.isAllowed("docs::a", "read")).toBe(true)
+    expect(both.isAllowed("docs::a", "write")).toBe(false)
+    expect(editor.subtract(reader).isAllowed("docs::a", "write")).toBe(true)
+  })
+
+  it("keeps templates, or binds them with a context", () => {
+    const own = new PermissionTree(["users::${user.id}::***;;*"])
+    const readOnly = new PermissionTree(["users::*::***;;read"])
+    const result = own.intersect(readOnly)
+    expect(result.toRules()).toEqual(["users::${user.id}::***;;read^3"])
+    expect(result.isAllowed("users::7::posts", "read", { user: { id: "7" } })).toBe(true)
+    expect(result.isAllowed("users::8::posts", "read", { user: { id: "7" } })).toBe(false)
+
+    const bound = own.intersect(readOnly, { user: { id: "7" } })
+    expect(bound.isAllowed("users::7::posts", "read")).toBe(true)
+    expect(bound.isAllowed("users::8::posts", "read")).toBe(false)
+  })
+
+  it("evaluates conditions against the context and rejects them without one", () => {
+    const tree = new PermissionTree(["docs::*;;read??user.verified == true"])
+    const other = new PermissionTree(["docs::public;;read"])
+    expect(() => tree.union(other)).toThrow(SetOperationError)
+    expect(tree.union(other, { user: { verified: true } }).isAllowed("docs::a", "read")).toBe(true)
+    expect(tree.union(other, { user: { verified: false } }).isAllowed("docs::a", "read")).toBe(false)
+  })
+
+  describe("isSubsetOf", () => {
+    it("accepts narrower trees and rejects escalation", () => {
+      expect(key.intersect(user).isSubsetOf(user)).toBe(true)
+      expect(key.isSubsetOf(user)).toBe(false)
+      expect(new PermissionTree(["projects::alpha;;read"]).isSubsetOf(user)).toBe(true)
+      expect(new PermissionTree(["projects::***;;read"]).isSubsetOf(user)).toBe(false)
+      expect(new PermissionTree(["projects::**;;read"]).isSubsetOf(user)).toBe(false)
+      expect(new PermissionTree([]).isSubsetOf(new PermissionTree([]))).toBe(true)
+    })
+
+    it("compares actions through hierarchies and namespaces", () => {
+      const issuer = new PermissionTree(["docs::*;;manage"], { actions: { manage: ["write"], write: ["read"] } })
+      expect(new PermissionTree(["docs::a;;read,write"]).isSubsetOf(issuer)).toBe(true)
+      expect(new PermissionTree(["docs::a;;delete"]).isSubsetOf(issuer)).toBe(false)
+      expect(new PermissionTree(["billing::*;;billing:pay"]).isSubsetOf(user)).toBe(true)
+      expect(new PermissionTree(["billing::*;;*"]).isSubsetOf(user)).toBe(false)
+    })
+
+    it("holds for every context unless one is given", () => {
+      const issuer = new PermissionTree(["users::${user.id}::***;;*"])
+      expect(new PermissionTree(["users::${user.id}::posts;;read"]).isSubsetOf(issuer)).toBe(true)
+      expect(new PermissionTree(["users::*::posts;;read"]).isSubsetOf(issuer)).toBe(false)
+      expect(new PermissionTree(["users::7::posts;;read"]).isSubsetOf(issuer)).toBe(false)
+      expect(new PermissionTree(["users::7::posts;;read"]).isSubsetOf(issuer, { user: { id: "7" } })).toBe(true)
+
+      // For a user with id "admin" the issuer allows nothing under users::admin, but the token would
+      const guarded = new PermissionTree(["users::${user.id}::***;;*", "!users::admin::***;;*"])
+      expect(new PermissionTree(["users::${user.id}::***;;read"]).isSubsetOf(guarded)).toBe(false)
+
+      const conditional = new PermissionTree(["docs::*;;read??user.verified == true"])
+      expect(conditional.isSubsetOf(new PermissionTree(["docs::*;;read"]))).toBe(true)
+      expect(new PermissionTree(["docs::*;;read"]).isSubsetOf(conditional)).toBe(false)
+      expect(new PermissionTree(["docs::*;;read"]).isSubsetOf(conditional, { user: { verified: true } })).toBe(true)
+    })
+  })
+})
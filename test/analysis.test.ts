@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, lint } from "../src"
+
+const issues = (rules: string[], options?: ConstructorParameters<typeof PermissionTree>[1]) =>
+  lint(rules, options).map(({ kind, rule, by }) => ({ kind, rule, by }))
+
+describe("Rule Analysis", () => {
+  it("reports duplicate rules", () => {
+    const [issue] = lint(["users::*;;read", "users::*;;read", "users::*;;read"])
+    expect(issue.kind).toBe("duplicate")
+    expect(issue.rule).toBe("users::*;;read")
+    expect(issue.message).toContain("3 times")
+  })
+
+  it("reports rules subsumed by a broader rule", () => {
+    expect(issues(["users::123::posts::456;;read", "users::123::***;;*"])).toEqual([
+      { kind: "subsumed", rule: "users::123::posts::456;;read", by: "users::123::***;;*" },
+    ])
+    expect(issues(["users::*;;read", "users::**;;read", "!a::b;;read", "!a::*;;read", "a::**;;read"])).toEqual([
+      { kind: "subsumed", rule: "!a::b;;read", by: "!a::*;;read" },
+      { kind: "subsumed", rule: "users::*;;read", by: "users::**;;read" },
+    ])
+  })
+
+  it("compares wildcards, patterns and action sets", () => {
+    expect(issues(["a::***::c;;read", "a::**::c;;read"])[0]).toMatchObject({ rule: "a::***::c;;read", by: "a::**::c;;read" })
+    expect(issues(["a::**::c;;read", "a::***::c;;read"])[0]).toMatchObject({ rule: "a::***::c;;read" })
+    expect(issues(["envs::dev;;read", "envs::{dev,staging};;read"])[0]).toMatchObject({ rule: "envs::dev;;read" })
+    expect(issues(["a;;read", "a;;read,write"])[0]).toMatchObject({ rule: "a;;read", by: "a;;read,write" })
+    expect(issues(["a;;billing:refund", "a;;billing:*"])[0]).toMatchObject({ rule: "a;;billing:refund", by: "a;;billing:*" })
+    expect(issues(["a::*;;read", "a::**::b;;read"])).toEqual([])
+  })
+
+  it("reports only the later of two equivalent rules", () => {
+    expect(issues(["a;;read,write", "a;;write,read"])).toEqual([
+      { kind: "subsumed", rule: "a;;write,read", by: "a;;read,write" },
+    ])
+  })
+
+  it("uses the action hierarchy", () => {
+    const options = { actions: { manage: ["write"], write: ["read"] } }
+    expect(issues(["docs::*;;read", "docs::*;;manage"], options)).toEqual([
+      { kind: "subsumed", rule: "docs::*;;read", by: "docs::*;;manage" },
+    ])
+    expect(issues(["docs::*;;read", "docs::*;;manage"])).toEqual([])
+  })
+
+  it("respects conditions and templates", () => {
+    expect(issues(["a::*;;read??x == 1", "a::*;;read"])[0]).toMatchObject({ rule: "a::*;;read??x == 1", by: "a::*;;read" })
+    expect(issues(["a::*;;read", "a::*;;read??x == 1"])[0]).toMatchObject({ rule: "a::*;;read??x == 1" })
+    expect(issues(["a::1;;read", "a::*;;read??x == 1"])).toEqual([])
+    expect(issues(["users::1;;read", "users::${user.id};;read"])).toEqual([])
+  })
+
+  it("reports allow rules shadowed by deny rules", () => {
+    expect(issues(["secrets::db;;read", "!secrets::***;;*", "secrets::public;;read", "!secrets::public;;read??x == 1"])).toEqual([
+      { kind: "shadowed", rule: "secrets::db;;read", by: "!secrets::***;;*" },
+      { kind: "shadowed", rule: "secrets::public;;read", by: "!secrets::***;;*" },
+      { kind: "subsumed", rule: "!secrets::public;;read??x == 1", by: "!secrets::***;;*" },
+    ])
+  })
+
+  it("considers what a deny rule shadows under the action hierarchy", () => {
+    const options = { actions: { manage: ["write"], write: ["read"] } }
+    expect(issues(["docs::*;;manage", "!docs::*;;write"], options)).toEqual([])
+    expect(issues(["docs::*;;write", "!docs::*;;read"], options)).toEqual([
+      { kind: "shadowed", rule: "docs::*;;write", by: "!docs::*;;read" },
+    ])
+  })
+
+  it("adapts shadowing to the resolution strategy", () => {
+    const rules = ["secrets::db;;read^10", "!secrets::***;;*"]
+    expect(issues(rules, { resolution: "priority" })).toEqual([])
+    expect(issues(rules, { resolution: "allow-overrides" })).toEqual([])
+    expect(issues(rules, { resolution: "most-specific-wins" })).toEqual([])
+    expect(issues(rules)[0]).toMatchObject({ kind: "shadowed" })
+  })
+
+  it("reports deny rules that never intersect an allow rule", () => {
+    expect(issues(["users::*;;read", "!users::admin;;write", "!projects::*;;*", "!users::admin;;read"])).toEqual([
+      { kind: "unused-deny", rule: "!projects::*;;*", by: undefined },
+      { kind: "unused-deny", rule: "!users::admin;;write", by: undefined },
+    ])
+    expect(issues(["a::**::c;;read", "!a::b::**;;read"])).toEqual([])
+  })
+
+  it("analyzes a tree's current rules", () => {
+    const tree = new PermissionTree(["a::1;;read"])
+    expect(tree.analyze()).toEqual([])
+    tree.addRule("a::*;;read")
+    expect(tree.analyze()).toMatchObject([{ kind: "subsumed", rule: "a::1;;read", by: "a::*;;read" }])
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest"
+import { ConditionSyntaxError, normalize, PermissionTree, rule, RuleBuilder } from "../src"
+
+describe("Rule Builder", () => {
+  it("builds canonical permission strings", () => {
+    expect(rule().allow().on("users", 42, "posts").any().action("read").build()).toBe("users::42::posts::*;;read")
+    expect(rule().deny().under("sensitive").all().build()).toBe("!sensitive::**;;*")
+    expect(rule().below("orgs", "acme").action("admin").build()).toBe("orgs::acme::***;;admin")
+    expect(rule().on("billing").action("billing:*").build()).toBe("billing;;billing:*")
+    expect(rule().on("docs").action("read", "write").priority(5).when("resource.ownerId==subject.id").build()).toBe(
+      "docs;;read,write^5??resource.ownerId == subject.id"
+    )
+    expect(rule().pattern("reports-*").pattern("${user.id}").pattern("/v\\d+/").build()).toBe("reports-*::${user.id}::/v\\d+/;;*")
+    expect(String(rule().deny().on("a").action("read"))).toBe("!a;;read")
+  })
+
+  it("escapes segments containing separators", () => {
+    const email = "alice::example.com"
+    const built = rule().on("users", email, "inbox").action("read").build()
+    expect(built).toBe("users::alice\\::example.com::inbox;;read")
+    const tree = new PermissionTree([built], { strict: true })
+    expect(tree.isAllowed(["users", email, "inbox"], "read")).toBe(true)
+    expect(tree.isAllowed("users::alice::example.com::inbox", "read")).toBe(false)
+  })
+
+  it("escapes segments bordering a separator", () => {
+    expect(rule().on("users", "bob;").action("read").build()).toBe("users::bob\\;;;read")
+    expect(rule().on("a:", ":b").action("read").build()).toBe("a\\:::\\:b;;read")
+    for (const segments of [["users", "bob;"], ["a:", ":b"], ["x", ";y"], ["a:::", "b"]]) {
+      const tree = new PermissionTree([rule().on(...segments).action("read")], { strict: true })
+      expect([segments, tree.isAllowed(segments, "read")]).toEqual([segments, true])
+    }
+    const tree = new PermissionTree([rule().on("users", "bob;").action("read"), rule().on("a:", ":b").action("read")], { strict: true })
+    expect(tree.isAllowed(["users", "bob"], "read")).toBe(false)
+    expect(tree.isAllowed(["users", "bob"], ";read")).toBe(false)
+    expect(tree.isAllowed(["a", "", "b"], "read")).toBe(false)
+  })
+
+  it("escapes segments the tree would not read literally", () => {
+    expect(rule().on("users", "*").build()).toBe("users::\\*;;*")
+    expect(rule().on("users", "/x/").build()).toBe("users::{/x/};;*")
+    for (const value of ["*", "**", "***", "a*", "user-?", "{a,b}", "/x/", "${user.id}", "x\\", "a,b}"]) {
+      const tree = new PermissionTree([rule().on("users", value).action("read")], { strict: true })
+      expect([value, tree.isAllowed(["users", value], "read")]).toEqual([value, true])
+      expect([value, tree.isAllowed(["users", "other"], "read")]).toEqual([value, false])
+    }
+  })
+
+  it("keeps a leading ! from negating the rule", () => {
+    expect(rule().on("!admin").action("read").build()).toBe("{\\!admin};;read")
+    expect(rule().deny().on("!admin").build()).toBe("!{\\!admin};;*")
+    expect(rule().on("users", "!admin").build()).toBe("users::!admin;;*")
+    const tree = new PermissionTree([rule().on("!admin").action("read"), rule().pattern("!ops-*").action("read")])
+    expect(tree.isAllowed("!admin", "read")).toBe(true)
+    expect(tree.isAllowed("!ops-1", "read")).toBe(true)
+    expect(tree.isAllowed("admin", "read")).toBe(false)
+    expect(rule().pattern("!ops-*").build()).toBe("\\!ops-*;;*")
+    expect(() => rule().pattern("!${user.id}")).toThrow(TypeError)
+  })
+
+  it("refuses malformed parts", () => {
+    expect(() => rule().on("users", "")).toThrow(TypeError)
+    expect(() => rule().action("read,write")).toThrow(TypeError)
+    expect(() => rule().action("read^1")).toThrow(TypeError)
+    expect(() => rule().action("re;ad").build()).toThrow(TypeError)
+    expect(() => new PermissionTree([rule().on("a").action("re;ad")])).toThrow(TypeError)
+    expect(rule().on("a").action("re;ad").build({ action: "->" })).toBe("a->re;ad")
+    expect(() => rule().pattern("user-??")).toThrow(TypeError)
+    expect(() => rule().on("a").pattern("${a??b}")).toThrow(TypeError)
+    expect(new PermissionTree([rule().on("users").pattern("user-?"), rule().on("a").action("read")], { strict: true }).toRules()).toEqual([
+      "a;;read",
+      "users::user-?;;*"
+    ])
+    expect(() => rule().priority(1.5)).toThrow(TypeError)
+    expect(() => rule().when("a ==")).toThrow(ConditionSyntaxError)
+    expect(() => rule().action("read").build()).toThrow("at least one segment")
+  })
+
+  it("is immutable", () => {
+    const posts = rule().on("users", "7", "posts")
+    const read = posts.action("read")
+    const write = posts.deny().action("write")
+    expect(read.build()).toBe("users::7::posts;;read")
+    expect(write.build()).toBe("!users::7::posts;;write")
+    expect(posts.build()).toBe("users::7::posts;;*")
+    expect(RuleBuilder.create().on("a").build()).toBe("a;;*")
+  })
+
+  it("is accepted by trees directly", () => {
+    const tree = new PermissionTree([rule().on("users").any().action("read"), rule().deny().under("users", "admin").all()])
+    expect(tree.isAllowed("users::1", "read")).toBe(true)
+    expect(tree.isAllowed("users::admin", "read")).toBe(false)
+    tree.addRule(rule().on("projects", "a/b").action("deploy"), "ops")
+    expect(tree.has(rule().on("projects", "a/b").action("deploy"))).toBe(true)
+    expect(tree.removeRule(rule().on("users").any().action("read"))).toBe(true)
+    expect(tree.toRules()).toEqual(["projects::a/b;;deploy", "!users::admin::**;;*"])
+    expect(normalize([rule().on("b"), "a"])).toEqual(["a;;*", "b;;*"])
+  })
+
+  it("writes the separators of the tree it is given to", () => {
+    const tree = new PermissionTree([rule().on("files", "a/b").action("read")], { separators: { segment: "/", action: ":" } })
+    expect(tree.toRules()).toEqual(["files/a\\/b:read"])
+    expect(tree.isAllowed(["files", "a/b"], "read")).toBe(true)
+    expect(rule().on("x").action("a/b").build()).toBe("x;;a/b")
+    expect(() => new PermissionTree([rule().on("x").action("a/b")], { separators: { segment: "/" } })).toThrow(TypeError)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest"
+import { CompiledPermissionTree, PermissionTree } from "../src"
+
+const rules = [
+  "org::***;;admin",
+  "org::*::projects::*;;read,list",
+  "!org::eng::projects::secret;;read",
+  "org::**::logs;;read",
+  "org::${user.team}::docs;;write",
+  "org::{eng,ops}::reports;;read??user.level >= 3",
+  "billing::*;;billing:*",
+  "!billing::*;;billing:refund",
+  "public;;*",
+]
+
+const requests: [string, string][] = [
+  ["org::eng::projects::web", "read"],
+  ["org::eng::projects::secret", "read"],
+  ["org::eng::projects::secret", "list"],
+  ["org::eng::projects::secret", "admin"],
+  ["org", "admin"],
+  ["org::logs", "read"],
+  ["org::a::b::logs", "read"],
+  ["org::core::docs", "write"],
+  ["org::eng::reports", "read"],
+  ["org::hr::reports", "read"],
+  ["billing::acme", "billing:pay"],
+  ["billing::acme", "billing:refund"],
+  ["public", "anything"],
+  ["private", "read"],
+]
+
+const contexts = [undefined, { user: { team: "core", level: 3 } }, { user: { team: "eng", level: 1 } }]
+
+describe("Compiled Trees", () => {
+  it("decides like the tree under every strategy", () => {
+    for (const resolution of ["deny-overrides", "allow-overrides", "most-specific-wins", "priority"] as const) {
+      const tree = new PermissionTree(rules, { resolution, actions: { admin: ["read", "write"] } })
+      const compiled = tree.compile()
+      expect(compiled).toBeInstanceOf(CompiledPermissionTree)
+      for (const context of contexts) {
+        for (const [path, action] of requests) {
+          expect([resolution, path, action, compiled.isAllowed(path, action, context)]).toEqual([
+            resolution,
+            path,
+            action,
+            tree.isAllowed(path, action, context),
+          ])
+        }
+      }
+    }
+  })
+
+  it("gives the same answers with and without the decision cache", () => {
+    const tree = new PermissionTree(rules)
+    const cached = tree.compile({ cacheSize: 2 })
+    const uncached = tree.compile({ cacheSize: 0 })
+    for (let round = 0; round < 3; round++) {
+      for (const context of contexts) {
+        for (const [path, action] of requests) {
+          expect(cached.isAllowed(path, action, context)).toBe(uncached.isAllowed(path, action, context))
+        }
+      }
+    }
+  })
+
+  it("keys cached decisions by segments", () => {
+    const compiled = new PermissionTree(["x:::y;;read", "a\\::b;;read"]).compile()
+    expect(compiled.isAllowed(["x", ":y"], "read")).toBe(true)
+    expect(compiled.isAllowed(["x:", "y"], "read")).toBe(false)
+    expect(compiled.isAllowed("x:::y", "read")).toBe(true)
+    expect(compiled.isAllowed(["a::b"], "read")).toBe(true)
+    expect(compiled.isAllowed(["a", "b"], "read")).toBe(false)
+  })
+
+  it("does not cache decisions that depend on the context", () => {
+    const compiled = new PermissionTree(["docs::${user.id};;read"]).compile()
+    expect(compiled.isAllowed("docs::1", "read", { user: { id: "1" } })).toBe(true)
+    expect(compiled.isAllowed("docs::1", "read", { user: { id: "2" } })).toBe(false)
+    expect(compiled.isAllowed("docs::1", "read")).toBe(false)
+  })
+
+  it("is unaffected by later changes to the tree", () => {
+    const tree = new PermissionTree(["users::*;;read"])
+    const compiled = tree.compile()
+    tree.addRule("!users::1;;read")
+    tree.addRule("posts::*;;read")
+    expect(compiled.isAllowed("users::1", "read")).toBe(true)
+    expect(compiled.isAllowed("posts::1", "read")).toBe(false)
+    expect(compiled.explain("users::1", "read").matchedDenyRules).toEqual([])
+  })
+
+  it("explains decisions like the tree", () => {
+    const tree = new PermissionTree(rules)
+    const compiled = tree.compile()
+    expect(compiled.explain("org::eng::projects::secret", "read")).toEqual(tree.explain("org::eng::projects::secret", "read"))
+  })
+})
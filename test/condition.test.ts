@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest"
+import {
+  ConditionSyntaxError,
+  PermissionSyntaxError,
+  PermissionTree,
+  evaluateCondition,
+  formatCondition,
+  parseCondition,
+  parsePermission,
+} from "../src"
+
+describe("Condition language", () => {
+  const evaluate = (source: string, context?: Record<string, unknown>) => evaluateCondition(parseCondition(source), context)
+
+  it("parses into serializable data", () => {
+    const expression = parseCondition("resource.ownerId == subject.id")
+    expect(expression).toEqual({
+      type: "compare",
+      operator: "==",
+      left: { type: "variable", path: "resource.ownerId" },
+      right: { type: "variable", path: "subject.id" },
+    })
+    expect(JSON.parse(JSON.stringify(expression))).toEqual(expression)
+  })
+
+  it("compares variables and literals", () => {
+    const context = { subject: { id: "u1", level: 3 }, resource: { ownerId: "u1", tags: ["public"] } }
+    expect(evaluate("resource.ownerId == subject.id", context)).toBe(true)
+    expect(evaluate("resource.ownerId != subject.id", context)).toBe(false)
+    expect(evaluate("subject.level >= 3 && subject.level < 5", context)).toBe(true)
+    expect(evaluate("'public' in resource.tags", context)).toBe(true)
+    expect(evaluate('subject.id in ["u2", "u3"]', context)).toBe(false)
+    expect(evaluate("!(subject.level > 4) || false", context)).toBe(true)
+  })
+
+  it("expresses time windows from context values", () => {
+    const businessHours = "time.hour >= 9 && time.hour < 17 && !(time.weekday in [0, 6])"
+    expect(evaluate(businessHours, { time: { hour: 10, weekday: 2 } })).toBe(true)
+    expect(evaluate(businessHours, { time: { hour: 20, weekday: 2 } })).toBe(false)
+    expect(evaluate(businessHours, { time: { hour: 10, weekday: 6 } })).toBe(false)
+  })
+
+  it("makes comparisons with missing variables or mismatched types false", () => {
+    expect(evaluate("resource.ownerId == null", {})).toBe(false)
+    expect(evaluate("resource.ownerId != null", {})).toBe(false)
+    expect(evaluate("resource.ownerId == null", { resource: { ownerId: null } })).toBe(true)
+    expect(evaluate("resource.ownerId == subject.id", {})).toBe(false)
+    expect(evaluate("subject.level > 1", { subject: { level: "9" } })).toBe(false)
+    expect(evaluate("subject.flag", { subject: { flag: "yes" } })).toBe(false)
+    expect(evaluate("subject.flag", { subject: { flag: true } })).toBe(true)
+  })
+
+  it("only reads own properties of the context", () => {
+    expect(evaluate("subject.constructor != 1", { subject: {} })).toBe(false)
+    expect(evaluate("subject.__proto__ != 1", { subject: {} })).toBe(false)
+  })
+
+  it("formats conditions canonically", () => {
+    expect(formatCondition(parseCondition("a.b==1&&(c||!d)"))).toBe("a.b == 1 && (c || !d)")
+    expect(formatCondition(parseCondition("x in ['a','b']"))).toBe('x in ["a", "b"]')
+    expect(formatCondition(parseCondition("(a && b) && c"))).toBe("a && b && c")
+  })
+
+  it("reads back the strings it formats", () => {
+    const value = 'tab\there\nnew "quoted" \\ \u0001\b\f\r \u2028 \'single\''
+    const expression = { type: "compare", operator: "==", left: { type: "variable", path: "a" }, right: { type: "literal", value } } as const
+    const formatted = formatCondition(expression)
+    expect(parseCondition(formatted)).toEqual(expression)
+    expect(evaluate(formatted, { a: value })).toBe(true)
+    expect(formatCondition(parseCondition(formatted))).toBe(formatted)
+    expect(evaluate("a == 'it\\'s \\u00e9\\/'", { a: "it's é/" })).toBe(true)
+    expect(() => parseCondition("a == '\\u12'")).toThrow("invalid \\u escape")
+  })
+
+  it("reports syntax errors with a column", () => {
+    const error = (() => {
+      try {
+        parseCondition("a == ")
+      } catch (e) {
+        return e as ConditionSyntaxError
+      }
+    })()
+    expect(error).toBeInstanceOf(ConditionSyntaxError)
+    expect(error!.column).toBe(6)
+    expect(() => parseCondition("a == 'x")).toThrow("unterminated string")
+    expect(() => parseCondition("(a")).toThrow("expected ')'")
+    expect(() => parseCondition("a # b")).toThrow("unexpected character '#'")
+  })
+})
+
+describe("Conditional rules", () => {
+  const tree = new PermissionTree([
+    "posts::*;;read",
+    "posts::*;;write??resource.ownerId == subject.id",
+    "!posts::*;;read??resource.status == 'draft' && resource.ownerId != subject.id",
+    "reports::***;;read??time.hour >= 9 && time.hour < 17",
+  ])
+
+  it("allows when the condition holds", () => {
+    const context = { subject: { id: "u1" }, resource: { ownerId: "u1" } }
+    expect(tree.isAllowed("posts::1", "write", context)).toBe(true)
+  })
+
+  it("does not apply a rule whose condition fails", () => {
+    const context = { subject: { id: "u1" }, resource: { ownerId: "u2" } }
+    expect(tree.isAllowed("posts::1", "write", context)).toBe(false)
+    expect(tree.isAllowed("posts::1", "write")).toBe(false)
+  })
+
+  it("applies conditional deny rules only when the condition holds", () => {
+    const draft = { subject: { id: "u1" }, resource: { ownerId: "u2", status: "draft" } }
+    const ownDraft = { subject: { id: "u1" }, resource: { ownerId: "u1", status: "draft" } }
+    expect(tree.isAllowed("posts::1", "read", draft)).toBe(false)
+    expect(tree.isAllowed("posts::1", "read", ownDraft)).toBe(true)
+  })
+
+  it("honors conditions on *** rules", () => {
+    expect(tree.isAllowed("reports::q1::summary", "read", { time: { hour: 10 } })).toBe(true)
+    expect(tree.isAllowed("reports::q1::summary", "read", { time: { hour: 22 } })).toBe(false)
+  })
+
+  it("lists passed and failed conditions in explain()", () => {
+    const explanation = tree.explain("posts::1", "write", { subject: { id: "u1" }, resource: { ownerId: "u2" } })
+    expect(explanation.allowed).toBe(false)
+    expect(explanation.matchedAllowRules).toEqual([])
+    expect(explanation.conditions).toEqual([
+      { rule: "posts::*;;write??resource.ownerId == subject.id", condition: "resource.ownerId == subject.id", passed: false },
+    ])
+    expect(explanation.reason).toContain("Condition(s) not met: posts::*;;write??resource.ownerId == subject.id")
+
+    const allowed = tree.explain("posts::1", "write", { subject: { id: "u1" }, resource: { ownerId: "u1" } })
+    expect(allowed.matchedAllowRules).toEqual(["posts::*;;write??resource.ownerId == subject.id"])
+    expect(allowed.conditions[0].passed).toBe(true)
+  })
+
+  it("reports conditions of deny rules with the ! prefix", () => {
+    const explanation = tree.explain("posts::1", "read", { subject: { id: "u1" }, resource: { ownerId: "u2", status: "draft" } })
+    expect(explanation.matchedDenyRules).toEqual([
+      `!posts::*;;read??resource.status == "draft" && resource.ownerId != subject.id`,
+    ])
+    expect(explanation.conditions.map(c => c.passed)).toEqual([true])
+  })
+
+  it("keeps rules with different conditions apart", () => {
+    const mutable = new PermissionTree(["docs::*;;read??a == 1", "docs::*;;read??a==1", "docs::*;;read??a == 2"])
+    expect(mutable.removeRule("docs::*;;read??a == 1")).toBe(true)
+    expect(mutable.isAllowed("docs::x", "read", { a: 1 })).toBe(true)
+    expect(mutable.removeRule("docs::*;;read??a == 1")).toBe(true)
+    expect(mutable.isAllowed("docs::x", "read", { a: 1 })).toBe(false)
+    expect(mutable.isAllowed("docs::x", "read", { a: 2 })).toBe(true)
+    expect(mutable.has("docs::*;;read")).toBe(false)
+  })
+
+  it("rejects malformed conditions even in lenient mode", () => {
+    expect(() => new PermissionTree(["docs::*;;read??a =="])).toThrow(ConditionSyntaxError)
+  })
+})
+
+describe("Condition parsing in permissions", () => {
+  it("exposes the parsed condition", () => {
+    const parsed = parsePermission("posts::*;;write??resource.public")
+    expect(parsed.action).toBe("write")
+    expect(parsed.condition).toEqual({ type: "variable", path: "resource.public" })
+  })
+
+  it("reports condition errors at their column in the rule", () => {
+    let error: PermissionSyntaxError | undefined
+    try {
+      parsePermission("posts::*;;write??a == ")
+    } catch (e) {
+      error = e as PermissionSyntaxError
+    }
+    expect(error).toBeInstanceOf(PermissionSyntaxError)
+    expect(error!.column).toBe(23)
+    expect(() => parsePermission("posts;;write??")).toThrow("empty condition")
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, RoleRegistry, diffTrees } from "../src"
+
+const diff = (before: string[], after: string[], options?: ConstructorParameters<typeof PermissionTree>[1]) =>
+  diffTrees(new PermissionTree(before, options), new PermissionTree(after, options))
+
+describe("Tree Diff", () => {
+  it("reports nothing for equivalent trees", () => {
+    expect(diff(["users::*;;read"], ["users::*;;read", "users::1;;read"])).toEqual({ granted: [], revoked: [] })
+    expect(diff(["a::**;;read"], ["a;;read", "a::***;;read"])).toEqual({ granted: [], revoked: [] })
+  })
+
+  it("reports granted and revoked regions", () => {
+    expect(diff(["projects::*;;read", "projects::legacy;;write"], ["projects::*;;read", "projects::*;;delete"])).toEqual({
+      granted: [{ path: "projects::*", action: "delete" }],
+      revoked: [{ path: "projects::legacy", action: "write" }],
+    })
+  })
+
+  it("reports action wildcards as * and leaves out regions inside a reported one", () => {
+    expect(diff(["projects::*;;read"], ["projects::*;;*", "!projects::prod;;delete"])).toEqual({
+      granted: [
+        { path: "projects::*", action: "*" },
+        { path: "projects::*", action: "delete" },
+      ],
+      revoked: [],
+    })
+  })
+
+  it("takes deny rules into account", () => {
+    expect(diff(["a::*::c;;read"], ["a::*::c;;read", "!a::b::*;;read"])).toEqual({
+      granted: [],
+      revoked: [{ path: "a::b::c", action: "read" }],
+    })
+    expect(diff(["docs::***;;read", "!docs::secret;;read"], ["docs::***;;read"]).granted).toEqual([
+      { path: "docs::secret", action: "read" },
+    ])
+  })
+
+  it("distinguishes *** from **", () => {
+    expect(diff(["a::**;;read"], ["a::***;;read"])).toEqual({ granted: [], revoked: [{ path: "a", action: "read" }] })
+  })
+
+  it("follows ** in the middle of a path", () => {
+    expect(diff(["a::**;;write"], ["a::**;;write", "!**::b::a;;write"])).toEqual({
+      granted: [],
+      revoked: [{ path: "a::**::b::a", action: "write" }],
+    })
+    expect(diff(["**::a;;read"], ["**::a;;read", "!a::**::a;;read"]).revoked).toEqual([{ path: "a::**::a", action: "read" }])
+  })
+
+  it("compares patterns, namespaces and hierarchies", () => {
+    expect(diff(["envs::{dev,staging};;deploy"], ["envs::dev;;deploy"]).revoked).toEqual([
+      { path: "envs::{dev,staging}", action: "deploy" },
+    ])
+    expect(diff(["b::*;;billing:*"], ["b::*;;billing:view"]).revoked).toEqual([{ path: "b::*", action: "billing:*" }])
+    expect(diff(["docs::*;;write"], ["docs::*;;manage"], { actions: { manage: ["write"], write: ["read"] } })).toEqual({
+      granted: [{ path: "docs::*", action: "manage" }],
+      revoked: [],
+    })
+  })
+
+  it("evaluates templates and conditions in the given context", () => {
+    const before = new PermissionTree(["users::${user.id};;write"])
+    const after = new PermissionTree(["users::${user.id};;write??user.active == true"])
+    expect(diffTrees(before, after, { user: { id: "1", active: true } })).toEqual({ granted: [], revoked: [] })
+    expect(diffTrees(before, after, { user: { id: "1", active: false } }).revoked).toEqual([
+      { path: "users::${user.id}", action: "write" },
+    ])
+  })
+
+  it("shows what a role change grants", () => {
+    const roles = new RoleRegistry({ developer: { allow: ["projects::*;;read", "projects::*;;write"] } })
+    const before = roles.resolve(["developer"])
+    roles.define("developer", { allow: ["projects::*;;read", "projects::*;;write", "projects::*;;delete"] })
+    expect(diffTrees(before, roles.resolve(["developer"])).granted).toEqual([{ path: "projects::*", action: "delete" }])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest"
+import { formatReason, PermissionTree, type ReasonFormatter } from "../src"
+
+describe("Explanation Trace", () => {
+  it("classifies decisions", () => {
+    const tree = new PermissionTree(["users::*;;read", "!users::admin;;read"])
+    expect(tree.explain("users::1", "read").decision).toBe("allow")
+    expect(tree.explain("users::admin", "read").decision).toBe("explicit-deny")
+    expect(tree.explain("posts::1", "read").decision).toBe("implicit-deny")
+    expect(tree.explain("users::1", "write").decision).toBe("implicit-deny")
+  })
+
+  it("names the rule deciding a ranked conflict", () => {
+    const tree = new PermissionTree(["docs::***;;read^1", "!docs::private::***;;read^5"], { resolution: "priority" })
+    const explanation = tree.explain("docs::private::a", "read")
+    expect(explanation.decision).toBe("explicit-deny")
+    expect(explanation.decidingRule).toBe("!docs::private::***;;read^5")
+    expect(tree.explain("docs::a", "read").decidingRule).toBeUndefined()
+  })
+
+  it("traces where each reached rule matched or diverged", () => {
+    const tree = new PermissionTree([
+      "users::*::posts;;read",
+      "users::123::***;;read",
+      "users::123;;read",
+      "users::${user.id}::posts;;read",
+      "users::*::posts;;read??user.verified == true",
+      "users::123::posts::***;;read",
+      "users::*::posts;;delete",
+      "!users::123::posts;;*",
+      "users::456::posts;;read",
+    ])
+    const explanation = tree.explain("users::123::posts", "read", { user: { id: "7", verified: false } })
+    expect(explanation.resource).toBe("users::123::posts")
+    expect(explanation.trace).toEqual([
+      { rule: "users::123::***;;read", effect: "allow", matched: true, segmentIndex: 3, wildcards: ["***"] },
+      { rule: "users::123;;read", effect: "allow", matched: false, segmentIndex: 2, wildcards: [] },
+      { rule: "users::123::posts::***;;read", effect: "allow", matched: false, segmentIndex: 3, wildcards: [] },
+      { rule: "users::*::posts;;read", effect: "allow", matched: true, segmentIndex: 3, wildcards: ["*"] },
+      {
+        rule: "users::*::posts;;read??user.verified == true",
+        effect: "allow",
+        matched: false,
+        segmentIndex: 3,
+        wildcards: ["*"],
+        condition: "user.verified == true",
+        conditionPassed: false,
+      },
+      { rule: "users::${user.id}::posts;;read", effect: "allow", matched: false, segmentIndex: 1, wildcards: [] },
+      { rule: "!users::123::posts;;*", effect: "deny", matched: true, segmentIndex: 3, wildcards: [] },
+    ])
+  })
+
+  it("derives the reason from the structured fields", () => {
+    const tree = new PermissionTree(["users::*;;read", "!users::admin;;read"])
+    const explanation = tree.explain(["users", "admin"], "read")
+    const { reason, ...facts } = explanation
+    expect(formatReason(facts)).toBe(reason)
+    expect(reason).toBe("Access denied by exclusion rule(s): !users::admin;;read. Although allow rule(s) matched: users::*;;read, deny rules take precedence.")
+    expect(tree.explain(["posts", "1"], "read").reason).toContain('resource "posts::1"')
+  })
+
+  it("localizes reasons through a formatter", () => {
+    const german: ReasonFormatter = ({ decision, matchedAllowRules, matchedDenyRules }) =>
+      decision === "allow"
+        ? `Erlaubt durch: ${matchedAllowRules.join(", ")}`
+        : decision === "explicit-deny"
+          ? `Verweigert durch: ${matchedDenyRules.join(", ")}`
+          : "Keine passende Regel"
+    const tree = new PermissionTree(["users::*;;read", "!users::admin;;read"], { reasonFormatter: german })
+    expect(tree.explain("users::1", "read").reason).toBe("Erlaubt durch: users::*;;read")
+    expect(tree.explain("users::admin", "read").reason).toBe("Verweigert durch: !users::admin;;read")
+    expect(tree.compile().explain("posts", "read").reason).toBe("Keine passende Regel")
+  })
+})
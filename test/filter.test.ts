@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest"
+import { FilterError, matchesFilter, PermissionTree, toMongoQuery, toSql } from "../src"
+
+describe("Access Filters", () => {
+  it("subtracts excluded children from a wildcard", () => {
+    const tree = new PermissionTree(["projects::*;;read", "!projects::secret;;read"])
+    const filter = tree.toFilter("projects", "read")
+    expect(filter).toEqual({ op: "notIn", values: ["secret"] })
+    expect(toSql(filter, "slug")).toEqual({ sql: "slug NOT IN (?)", params: ["secret"] })
+    expect(toMongoQuery(filter, "slug")).toEqual({ slug: { $nin: ["secret"] } })
+  })
+
+  it("lists children named by allow rules", () => {
+    const tree = new PermissionTree(["projects::apollo;;read", "projects::gemini::**;;*", "projects::mercury;;write"])
+    expect(tree.toFilter("projects", "read")).toEqual({ op: "in", values: ["apollo", "gemini"] })
+    expect(tree.toFilter(["projects"], "write")).toEqual({ op: "in", values: ["gemini", "mercury"] })
+  })
+
+  it("covers everything or nothing", () => {
+    const tree = new PermissionTree(["projects::**;;read"])
+    expect(tree.toFilter("projects", "read")).toEqual({ op: "any" })
+    expect(tree.toFilter("projects", "delete")).toEqual({ op: "none" })
+    expect(toSql({ op: "any" }, "id").sql).toBe("1 = 1")
+    expect(toSql({ op: "none" }, "id").sql).toBe("1 = 0")
+    expect(toMongoQuery({ op: "any" }, "id")).toEqual({})
+  })
+
+  it("turns globs into prefixes", () => {
+    const tree = new PermissionTree(["reports::{team,org}-*;;read", "!reports::team-x;;read", "reports::summary;;read"])
+    const filter = tree.toFilter("reports", "read")
+    expect(filter).toEqual({
+      op: "or",
+      filters: [
+        { op: "in", values: ["summary"] },
+        { op: "and", filters: [{ op: "notIn", values: ["team-x"] }, { op: "or", filters: [{ op: "prefix", value: "org-" }, { op: "prefix", value: "team-" }] }] }
+      ]
+    })
+    expect(toSql(filter, "name", { placeholder: n => "$" + n })).toEqual({
+      sql: "(name IN ($1) OR (name NOT IN ($2) AND (name LIKE $3 ESCAPE '!' OR name LIKE $4 ESCAPE '!')))",
+      params: ["summary", "team-x", "org-%", "team-%"]
+    })
+    expect(toMongoQuery({ op: "prefix", value: "a.b_%" }, "name")).toEqual({ name: { $regex: "^a\\.b_%" } })
+    expect(toSql({ op: "prefix", value: "50%_off!\\" }, "name").params).toEqual(["50!%!_off!!\\%"])
+    expect(toSql(new PermissionTree(["files::50%_*;;read"]).toFilter("files", "read"), "files.name")).toEqual({
+      sql: "files.name LIKE ? ESCAPE '!'",
+      params: ["50!%!_%"]
+    })
+  })
+
+  it("nests prefixes that are decided differently", () => {
+    const tree = new PermissionTree(["logs::*;;read", "!logs::audit-*;;read^1", "logs::audit-public-*;;read^2"], { resolution: "priority" })
+    const filter = tree.toFilter("logs", "read")
+    expect(filter).toEqual({
+      op: "not",
+      filter: { op: "and", filters: [{ op: "prefix", value: "audit-" }, { op: "not", filter: { op: "prefix", value: "audit-public-" } }] }
+    })
+    expect(toMongoQuery(filter, "name")).toEqual({
+      $nor: [{ $and: [{ name: { $regex: "^audit-" } }, { $nor: [{ name: { $regex: "^audit-public-" } }] }] }]
+    })
+  })
+
+  it("agrees with isAllowed", () => {
+    const tree = new PermissionTree([
+      "docs::*;;read",
+      "!docs::draft-*;;read",
+      "docs::draft-shared;;read",
+      "!docs::${user}-private;;read",
+      "docs::{a,b}x;;write"
+    ])
+    const context = { user: "ann" }
+    const values = ["intro", "draft-1", "draft-shared", "ann-private", "bob-private", "ax", "bx", "cx", "", "draft-"]
+    for (const action of ["read", "write"]) {
+      const filter = tree.toFilter("docs", action, context)
+      for (const value of values) {
+        expect(matchesFilter(filter, value)).toBe(tree.isAllowed(["docs", value], action, context))
+      }
+    }
+  })
+
+  it("rejects patterns it cannot express", () => {
+    expect(() => new PermissionTree(["users::/u\\d+/;;read"]).toFilter("users", "read")).toThrow(FilterError)
+    expect(() => new PermissionTree(["users::user-?;;read"]).toFilter("users", "read")).toThrow(FilterError)
+    expect(() => new PermissionTree(["users::*-admin;;read"]).toFilter("users", "read")).toThrow('segment "*-admin"')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree } from "../src"
+import { AccessDeniedError, currentPermissions, guard, RequirePermission, runWithPermissions } from "../src/guard"
+
+describe("Guards", () => {
+  const tree = new PermissionTree(["projects::*;;read", "projects::42;;write", "users::${user.id}::**;;*"])
+  const scope = { tree, context: { user: { id: "ann" } } }
+
+  it("checks the current permissions before calling", () => {
+    const rename = guard((args: { id: string; name: string }) => `${args.id}:${args.name}`, "projects::${args.id};;write")
+    runWithPermissions(scope, () => {
+      expect(rename({ id: "42", name: "apollo" })).toBe("42:apollo")
+      expect(() => rename({ id: "7", name: "gemini" })).toThrow(AccessDeniedError)
+    })
+    expect(() => rename({ id: "42", name: "apollo" })).toThrow("within runWithPermissions")
+  })
+
+  it("carries the explanation", () => {
+    const remove = guard((id: string) => id, "projects::${args.0};;delete")
+    runWithPermissions(scope, () => {
+      try {
+        remove("42")
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(AccessDeniedError)
+        const { explanation } = error as AccessDeniedError
+        expect(explanation).toMatchObject({ allowed: false, resource: "projects::42", action: "delete", decision: "implicit-deny" })
+        expect((error as Error).message).toBe(`Access denied to "projects::42" for action "delete": ${explanation.reason}`)
+      }
+    })
+  })
+
+  it("follows the scope across awaits and keeps this", async () => {
+    const service = {
+      prefix: "saved",
+      save: guard(async function (this: { prefix: string }, id: string, body: string) {
+        await Promise.resolve()
+        return `${this.prefix} ${id} ${body}${currentPermissions() === scope ? " in scope" : ""}`
+      }, (id: string) => `users::${id}::drafts;;write`)
+    }
+    const saved = await runWithPermissions(scope, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1))
+      return service.save("ann", "hello")
+    })
+    expect(saved).toBe("saved ann hello in scope")
+  })
+
+  it("resolves the scope's context and escapes values", () => {
+    const read = guard((args: { path: string }) => args.path, "users::${user.id}::${args.path};;read")
+    runWithPermissions(scope, () => {
+      expect(read({ path: "notes" })).toBe("notes")
+    })
+    const open = guard((args: { id: string }) => args.id, "projects::${args.id}::files;;read")
+    runWithPermissions({ tree: new PermissionTree(["projects::1::secrets::files;;read"]) }, () => {
+      expect(() => open({ id: "1::secrets" })).toThrow(AccessDeniedError)
+      expect(() => open({} as { id: string })).toThrow(TypeError)
+    })
+    const post = guard((args: { id: string }) => args.id, "projects::${args.id}::posts;;write")
+    runWithPermissions({ tree: new PermissionTree(["projects::x::*;;write", "projects::*::posts;;read"]) }, () => {
+      expect(() => post({ id: "x:" })).toThrow(AccessDeniedError)
+      expect(() => post({ id: ":x" })).toThrow(AccessDeniedError)
+      expect(() => post({ id: "x;;read" })).toThrow(AccessDeniedError)
+    })
+    runWithPermissions({ tree: new PermissionTree(["projects::x\\:::posts;;write"]) }, () => {
+      expect(post({ id: "x:" })).toBe("x:")
+    })
+    expect(() => guard(() => 0, "projects::1")).toThrow("names no action")
+  })
+
+  it("decorates methods", async () => {
+    class ProjectService {
+      calls = 0
+
+      @RequirePermission("projects::${args.id};;write")
+      async rename(args: { id: string; name: string }) {
+        this.calls++
+        return args.name
+      }
+
+      @RequirePermission((id: string) => `projects::${id};;read`)
+      show(id: string) {
+        return `project ${id}`
+      }
+
+      // @ts-expect-error The permission is computed from arguments the method does not take
+      @RequirePermission((id: number) => `projects::${id};;delete`)
+      remove(id: string) {
+        return id
+      }
+    }
+    const service = new ProjectService()
+    await runWithPermissions({ tree: tree.compile() }, async () => {
+      expect(await service.rename({ id: "42", name: "apollo" })).toBe("apollo")
+      expect(() => service.rename({ id: "7", name: "gemini" })).toThrow(AccessDeniedError)
+      expect(service.show("7")).toBe("project 7")
+    })
+    expect(service.calls).toBe(1)
+  })
+
+  it("decorates methods with experimental decorators", () => {
+    const decorate = RequirePermission("projects::${args.0};;write")
+    const descriptor = decorate({}, "save", { value: (id: string) => `saved ${id}`, writable: true })
+    runWithPermissions(scope, () => {
+      expect(descriptor.value("42")).toBe("saved 42")
+      expect(() => descriptor.value("7")).toThrow(AccessDeniedError)
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest"
+import { createAccessMiddleware, PermissionTree } from "../src"
+
+describe("HTTP Middleware", () => {
+  const trees: Record<string, PermissionTree> = {
+    alice: new PermissionTree(["projects::*::posts::*;;read", "projects::42::**;;*", "!projects::42::posts::locked;;delete"]),
+    bob: new PermissionTree(["projects::${team}::**;;*"])
+  }
+  const loadTree = (request: Request) => trees[request.headers.get("x-user") ?? ""] ?? new PermissionTree([])
+  const request = (method: string, path: string, user = "alice") =>
+    new Request(`http://example.com${path}`, { method, headers: { "x-user": user } })
+
+  it("maps routes and methods to permission checks", async () => {
+    const guard = createAccessMiddleware({ routes: [{ route: "/projects/:id/posts/:postId" }], loadTree })
+    expect(await guard(request("GET", "/projects/7/posts/1"))).toBeUndefined()
+    expect(await guard(request("PUT", "/projects/42/posts/1?draft=true"))).toBeUndefined()
+    expect(await guard(request("DELETE", "/projects/42/posts/locked"))).toBeInstanceOf(Response)
+    const denied = await guard(request("POST", "/projects/7/posts/1"))
+    expect(denied?.status).toBe(403)
+    expect(await denied?.json()).toEqual({ error: "Forbidden" })
+  })
+
+  it("maps routes to custom resources and actions", async () => {
+    const guard = createAccessMiddleware({
+      routes: [
+        { route: "/p/:project/archive", methods: ["post"], action: "update", resource: "projects::${project}::archive" },
+        { route: "/p/:project", resource: "projects::${project}::posts::index" }
+      ],
+      loadTree,
+      actions: { GET: "read", POST: "publish" }
+    })
+    expect(await guard(request("POST", "/p/42/archive"))).toBeUndefined()
+    expect((await guard(request("GET", "/p/42/archive")))?.status).toBe(403)
+    expect(await guard(request("GET", "/p/7"))).toBeUndefined()
+    expect((await guard(request("POST", "/p/7")))?.status).toBe(403)
+    expect(() => createAccessMiddleware({ routes: [{ route: "/p/:id", resource: "p::${project}" }], loadTree })).toThrow(TypeError)
+  })
+
+  it("decodes path segments", async () => {
+    const tree = new PermissionTree(["files::a\\::b;;read"])
+    const guard = createAccessMiddleware({ routes: [{ route: "/files/:name" }], loadTree: () => tree })
+    expect(await guard(new Request("http://example.com/files/a%3A%3Ab"))).toBeUndefined()
+    expect((await guard(new Request("http://example.com/files/%E0%A4%A")))?.status).toBe(403)
+  })
+
+  it("passes a per-request context", async () => {
+    const guard = createAccessMiddleware({
+      routes: [{ route: "/projects/:id" }],
+      loadTree,
+      context: incoming => ({ team: incoming.headers.get("x-team") ?? "" })
+    })
+    const withTeam = (team: string) => new Request("http://example.com/projects/red", { method: "DELETE", headers: { "x-user": "bob", "x-team": team } })
+    expect(await guard(withTeam("red"))).toBeUndefined()
+    expect((await guard(withTeam("blue")))?.status).toBe(403)
+  })
+
+  it("refuses unmatched routes unless told otherwise", async () => {
+    const routes = [{ route: "/projects/:id" }]
+    expect((await createAccessMiddleware({ routes, loadTree })(request("GET", "/health")))?.status).toBe(403)
+    expect(await createAccessMiddleware({ routes, loadTree, unmatched: "allow" })(request("GET", "/health"))).toBeUndefined()
+    expect((await createAccessMiddleware({ routes, loadTree })(request("TRACE", "/projects/42")))?.status).toBe(403)
+  })
+
+  it("explains refusals in debug mode", async () => {
+    const guard = createAccessMiddleware({ routes: [{ route: "/projects/:id/posts/:postId" }], loadTree, debug: true })
+    const body = await (await guard(request("DELETE", "/projects/42/posts/locked")))?.json()
+    expect(body.explanation).toMatchObject({
+      allowed: false,
+      decision: "explicit-deny",
+      action: "delete",
+      matchedDenyRules: ["!projects::42::posts::locked;;delete"]
+    })
+    expect(await (await guard(request("GET", "/nowhere")))?.json()).toEqual({ error: "Forbidden", reason: "No route matches GET http://example.com/nowhere." })
+  })
+
+  it("accepts request objects with a bare path", async () => {
+    const expressLike = { method: "get", url: "/projects/7/posts/1", user: "alice" }
+    const guard = createAccessMiddleware({ routes: [{ route: "/projects/:id/posts/:postId" }], loadTree: (req: typeof expressLike) => trees[req.user] })
+    expect(await guard(expressLike)).toBeUndefined()
+  })
+})
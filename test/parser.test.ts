@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, PermissionSyntaxError, parsePermission } from "../src"
+
+function syntaxError(fn: () => unknown): PermissionSyntaxError {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(PermissionSyntaxError)
+    return error as PermissionSyntaxError
+  }
+  throw new Error("expected a PermissionSyntaxError")
+}
+
+describe("parsePermission", () => {
+  it("parses an allow rule", () => {
+    expect(parsePermission("users::123::posts::*;;read")).toEqual({
+      effect: "allow",
+      segments: [
+        { value: "users", kind: "literal" },
+        { value: "123", kind: "literal" },
+        { value: "posts", kind: "literal" },
+        { value: "*", kind: "wildcard" },
+      ],
+      action: "read",
+      actionKind: "literal",
+    })
+  })
+
+  it("parses a deny rule with a triple wildcard and wildcard action", () => {
+    expect(parsePermission("!sensitive::***;;*")).toEqual({
+      effect: "deny",
+      segments: [
+        { value: "sensitive", kind: "literal" },
+        { value: "***", kind: "globstar" },
+      ],
+      action: "*",
+      actionKind: "wildcard",
+    })
+  })
+
+  it("defaults the action to * when omitted", () => {
+    const parsed = parsePermission("users::123")
+    expect(parsed.action).toBe("*")
+    expect(parsed.actionKind).toBe("wildcard")
+  })
+
+  it("allows single colons and inner spaces inside segments", () => {
+    const parsed = parsePermission("urn:aws::my project;;billing:read")
+    expect(parsed.segments.map(s => s.value)).toEqual(["urn:aws", "my project"])
+    expect(parsed.action).toBe("billing:read")
+  })
+
+  it("rejects an empty permission", () => {
+    const error = syntaxError(() => parsePermission(""))
+    expect(error.column).toBe(1)
+    expect(error.reason).toContain("empty")
+  })
+
+  it("rejects an empty path segment", () => {
+    const error = syntaxError(() => parsePermission("users::;;read"))
+    expect(error.rule).toBe("users::;;read")
+    expect(error.column).toBe(8)
+    expect(error.reason).toBe("empty path segment")
+    expect(error.message).toBe('Invalid permission "users::;;read" at column 8: empty path segment')
+  })
+
+  it("rejects leading and trailing separators", () => {
+    expect(syntaxError(() => parsePermission("::users;;read")).column).toBe(1)
+    expect(syntaxError(() => parsePermission("users::::posts")).column).toBe(8)
+  })
+
+  it("rejects a second action separator", () => {
+    const error = syntaxError(() => parsePermission("a;;b;;c"))
+    expect(error.column).toBe(5)
+    expect(error.reason).toContain("';;'")
+  })
+
+  it("rejects double negation", () => {
+    const error = syntaxError(() => parsePermission("!!x"))
+    expect(error.column).toBe(2)
+  })
+
+  it("rejects an empty action", () => {
+    expect(syntaxError(() => parsePermission("users;;")).reason).toBe("empty action")
+  })
+
+  it("rejects stray whitespace", () => {
+    expect(syntaxError(() => parsePermission(" users;;read")).column).toBe(1)
+    expect(syntaxError(() => parsePermission("users :: 123;;read")).column).toBe(6)
+    expect(syntaxError(() => parsePermission("users;;read ")).column).toBe(12)
+  })
+
+  it("rejects stray semicolons and colons", () => {
+    expect(syntaxError(() => parsePermission("users;read")).column).toBe(6)
+    expect(syntaxError(() => parsePermission("users:::123")).column).toBe(8)
+  })
+
+  it("rejects malformed wildcards", () => {
+    expect(syntaxError(() => parsePermission("users::${id}*;;read")).column).toBe(13)
+    expect(syntaxError(() => parsePermission("users::****;;read")).column).toBe(8)
+    expect(syntaxError(() => parsePermission("users;;re*")).column).toBe(10)
+  })
+
+  it("parses multi-segment wildcards anywhere in the path", () => {
+    expect(parsePermission("orgs::**::secrets;;read").segments.map(s => s.kind)).toEqual(["literal", "doublestar", "literal"])
+    expect(parsePermission("orgs::***::secrets;;read").segments.map(s => s.kind)).toEqual(["literal", "globstar", "literal"])
+  })
+
+  it("rejects '::' in the action", () => {
+    expect(syntaxError(() => parsePermission("users;;read::write")).column).toBe(12)
+  })
+})
+
+describe("Strict PermissionTree", () => {
+  it("behaves like a regular tree for valid rules", () => {
+    const tree = new PermissionTree(["users::*;;read", "!users::123;;read"], { strict: true })
+    expect(tree.isAllowed("users::456", "read")).toBe(true)
+    expect(tree.isAllowed("users::123", "read")).toBe(false)
+  })
+
+  it("reports the index of the offending rule", () => {
+    const error = syntaxError(() => new PermissionTree(["users::*;;read", "users::;;read"], { strict: true }))
+    expect(error.index).toBe(1)
+    expect(error.column).toBe(8)
+    expect(error.message).toContain("#1")
+  })
+
+  it("rejects malformed rules passed to addRule", () => {
+    const tree = new PermissionTree([], { strict: true })
+    const error = syntaxError(() => tree.addRule("!!users;;read"))
+    expect(error.index).toBeUndefined()
+    expect(tree.has("!users;;read")).toBe(false)
+  })
+
+  it("leaves the tree untouched when replaceRules fails", () => {
+    const tree = new PermissionTree(["users::*;;read"], { strict: true })
+    const error = syntaxError(() => tree.replaceRules(["projects::*;;read", "a;;b;;c"]))
+    expect(error.index).toBe(1)
+    expect(tree.isAllowed("users::123", "read")).toBe(true)
+    expect(tree.isAllowed("projects::x", "read")).toBe(false)
+  })
+
+  it("keeps lenient parsing when strict mode is off", () => {
+    const tree = new PermissionTree(["users::;;read"])
+    expect(tree.has("users::;;read")).toBe(true)
+  })
+})
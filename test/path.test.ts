@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest"
+import { diffTrees, escapeSegment, parsePermission, PermissionSyntaxError, PermissionTree, ResourcePath } from "../src"
+
+describe("Resource Paths", () => {
+  it("parses once and checks like a string", () => {
+    const tree = new PermissionTree(["users::*::posts;;read", "!users::admin::posts;;read"])
+    const path = ResourcePath.parse("users::123::posts")
+    expect(path.segments).toEqual(["users", "123", "posts"])
+    expect(tree.isAllowed(path, "read")).toBe(true)
+    expect(tree.isAllowed(["users", "admin", "posts"], "read")).toBe(false)
+    expect(tree.isAllowed(ResourcePath.from(["users", "7"]).child("posts"), "read")).toBe(true)
+    expect(tree.explain(["users", "admin", "posts"], "read").matchedDenyRules).toEqual(["!users::admin::posts;;read"])
+    expect(tree.isAllowedMany([path, ["users", "admin", "posts"], "users::9::posts"], "read")).toEqual([true, false, true])
+  })
+
+  it("escapes separators inside segments", () => {
+    const path = ResourcePath.from(["users", "alice::example.com", "a\\", "b;;c"])
+    expect(path.toString()).toBe("users::alice\\::example.com::a\\\\::b\\;\\;c")
+    expect(ResourcePath.parse(path.toString()).segments).toEqual(path.segments)
+    expect(ResourcePath.parse("api::/v\\d+/").segments).toEqual(["api", "/v\\d+/"])
+    expect(Object.isFrozen(path.segments)).toBe(true)
+  })
+
+  it("escapes characters that would join the separator next to them", () => {
+    expect(ResourcePath.from(["x:", "y"]).toString()).toBe("x\\:::y")
+    expect(ResourcePath.from(["x", ":y"]).toString()).toBe("x::\\:y")
+    for (const segments of [["x:", "y"], ["x", ":y"], ["x", ";y"], ["bob;"], ["a::", ":b"], [":", ":"], ["a\\:", "b"]]) {
+      const text = ResourcePath.from(segments).toString()
+      expect([text, ResourcePath.parse(text).segments]).toEqual([text, segments])
+      const tree = new PermissionTree([`${text};;read`], { strict: true })
+      expect([text, tree.isAllowed(segments, "read")]).toEqual([text, true])
+    }
+    expect(new PermissionTree(["x:::y;;read"]).isAllowed(["x:", "y"], "read")).toBe(false)
+    const tree = new PermissionTree([`users::${escapeSegment("bob:")}::posts;;read`], { strict: true })
+    expect(tree.isAllowed(["users", "bob:", "posts"], "read")).toBe(true)
+    expect(tree.isAllowed(["users", "bob", ":posts"], "read")).toBe(false)
+  })
+
+  it("matches rules with escaped segments", () => {
+    const email = escapeSegment("alice::example.com")
+    expect(email).toBe("alice\\::example.com")
+    const tree = new PermissionTree([`users::${email}::***;;read`], { strict: true })
+    expect(tree.isAllowed(["users", "alice::example.com", "inbox"], "read")).toBe(true)
+    expect(tree.isAllowed("users::alice\\::example.com::inbox", "read")).toBe(true)
+    expect(tree.isAllowed("users::alice::example.com::inbox", "read")).toBe(false)
+    expect(tree.toRules()).toEqual(["users::alice\\::example.com::***;;read"])
+    expect(tree.explain(["users", "alice::example.com", "inbox"], "read").matchedAllowRules).toEqual(tree.toRules())
+    expect(parsePermission("users::a\\;;b;;read").segments[1].value).toBe("a;;b")
+  })
+
+  it("keeps escaped segments through diffs and set operations", () => {
+    const before = new PermissionTree(["users::alice\\::example.com;;read"])
+    const after = new PermissionTree(["users::alice\\::example.com;;*"])
+    expect(diffTrees(before, after).granted).toContainEqual({ path: "users::alice\\::example.com", action: "*" })
+    const both = before.intersect(after)
+    expect(both.isAllowed(["users", "alice::example.com"], "read")).toBe(true)
+    expect(both.isAllowed(["users", "alice"], "read")).toBe(false)
+  })
+
+  describe("Custom Separators", () => {
+    const options = { separators: { segment: "/", action: ":" } }
+
+    it("reads rules and paths with the tree's separators", () => {
+      const tree = new PermissionTree(["users/*/posts:read", "!users/admin/posts:read", "billing/*:billing:*", "public/**"], options)
+      expect(tree.isAllowed("users/123/posts", "read")).toBe(true)
+      expect(tree.isAllowed("users/admin/posts", "read")).toBe(false)
+      expect(tree.isAllowed("billing/acme", "billing:refund")).toBe(true)
+      expect(tree.isAllowed("public/a/b", "delete")).toBe(true)
+      expect(tree.isAllowed(ResourcePath.parse("users/1/posts", options.separators), "read")).toBe(true)
+      expect(tree.toRules()).toEqual(["billing/*:billing:*", "public/**:*", "users/*/posts:read", "!users/admin/posts:read"])
+      expect(tree.explain("users/admin/posts", "read").matchedDenyRules).toEqual(["!users/admin/posts:read"])
+    })
+
+    it("escapes its own separators", () => {
+      const tree = new PermissionTree(["files/a\\/b:read", "users\\:\\:1:read"], options)
+      expect(tree.isAllowed(["files", "a/b"], "read")).toBe(true)
+      expect(tree.isAllowed("files/a\\/b", "read")).toBe(true)
+      expect(tree.isAllowed(["users::1"], "read")).toBe(true)
+      expect(escapeSegment("a/b:c", options.separators)).toBe("a\\/b\\:c")
+    })
+
+    it("validates rules in strict mode", () => {
+      const strict = { ...options, strict: true }
+      expect(new PermissionTree(["users/*:billing:*"], strict).isAllowed("users/1", "billing:pay")).toBe(true)
+      expect(() => new PermissionTree(["users//posts:read"], strict)).toThrow(PermissionSyntaxError)
+      expect(() => new PermissionTree(["users/posts:read/write"], strict)).toThrow("actions cannot contain '/'")
+      expect(parsePermission("a/b:read", options.separators).segments.map(segment => segment.value)).toEqual(["a", "b"])
+    })
+
+    it("survives serialization and compilation", () => {
+      const tree = new PermissionTree(["users/*:read"], options)
+      tree.addRule("!users/admin:read", "guard")
+      for (const restored of [PermissionTree.fromJSON(tree.toJSON()), PermissionTree.fromSnapshot(tree.toSnapshot())]) {
+        expect(restored.toRules()).toEqual(tree.toRules())
+        expect(restored.isAllowed("users/admin", "read")).toBe(false)
+        expect(restored.explain("users/admin", "read").ruleSources).toEqual({ "!users/admin:read": ["guard"] })
+      }
+      const compiled = tree.compile()
+      expect(compiled.isAllowed("users/1", "read")).toBe(true)
+      expect(compiled.isAllowed(["users", "admin"], "read")).toBe(false)
+      expect(new PermissionTree(["a::b;;read"]).toJSON().options).not.toHaveProperty("separators")
+    })
+
+    it("rejects ambiguous separators", () => {
+      expect(() => new PermissionTree([], { separators: { segment: "" } })).toThrow(TypeError)
+      expect(() => new PermissionTree([], { separators: { segment: ";", action: ";;" } })).toThrow(TypeError)
+      expect(() => new PermissionTree([], { separators: { action: "\\" } })).toThrow(TypeError)
+    })
+  })
+})
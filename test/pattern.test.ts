@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, parsePermission } from "../src"
+
+describe("Segment Patterns", () => {
+  const tree = new PermissionTree([
+    "reports::reports-2024-*;;read",
+    "envs::{staging,dev}::deploy;;*",
+    "users::user-?;;read",
+    "api::/v\\d+/::docs;;read",
+    "!envs::{prod,production}::***;;*",
+    "files::*.{png,jpg};;read",
+  ])
+
+  it("matches * within a segment", () => {
+    expect(tree.isAllowed("reports::reports-2024-q1", "read")).toBe(true)
+    expect(tree.isAllowed("reports::reports-2023-q1", "read")).toBe(false)
+  })
+
+  it("matches alternatives", () => {
+    expect(tree.isAllowed("envs::staging::deploy", "run")).toBe(true)
+    expect(tree.isAllowed("envs::dev::deploy", "run")).toBe(true)
+    expect(tree.isAllowed("envs::qa::deploy", "run")).toBe(false)
+  })
+
+  it("matches exactly one character with ?", () => {
+    expect(tree.isAllowed("users::user-1", "read")).toBe(true)
+    expect(tree.isAllowed("users::user-12", "read")).toBe(false)
+  })
+
+  it("anchors regular expressions to the whole segment", () => {
+    expect(tree.isAllowed("api::v2::docs", "read")).toBe(true)
+    expect(tree.isAllowed("api::v2beta::docs", "read")).toBe(false)
+    expect(tree.isAllowed("api::xv2::docs", "read")).toBe(false)
+  })
+
+  it("combines glob features", () => {
+    expect(tree.isAllowed("files::logo.png", "read")).toBe(true)
+    expect(tree.isAllowed("files::logo.gif", "read")).toBe(false)
+  })
+
+  it("applies patterns in deny rules", () => {
+    const denied = new PermissionTree(["envs::*::***;;*", "!envs::{prod,production}::***;;*"])
+    expect(denied.isAllowed("envs::prod::db", "read")).toBe(false)
+    expect(denied.isAllowed("envs::staging::db", "read")).toBe(true)
+  })
+
+  it("does not treat a request segment equal to the pattern as a literal match", () => {
+    expect(tree.isAllowed("envs::{staging,dev}::deploy", "run")).toBe(false)
+  })
+
+  it("echoes the pattern in matchedRule", () => {
+    const explanation = tree.explain("envs::dev::deploy", "run")
+    expect(explanation.matchedAllowRules).toEqual(["envs::{staging,dev}::deploy;;*"])
+  })
+
+  it("still looks up literal children directly", () => {
+    const mixed = new PermissionTree(["users::user-1;;write", "users::user-?;;read"])
+    expect(mixed.isAllowed("users::user-1", "write")).toBe(true)
+    expect(mixed.isAllowed("users::user-2", "write")).toBe(false)
+    expect(mixed.explain("users::user-1", "read").matchedAllowRules).toEqual(["users::user-?;;read"])
+  })
+
+  it("ranks patterns between literals and * under most-specific-wins", () => {
+    const specific = new PermissionTree(
+      ["!envs::*;;deploy", "envs::{staging,dev};;deploy", "!envs::dev;;deploy"],
+      { resolution: "most-specific-wins" },
+    )
+    expect(specific.isAllowed("envs::staging", "deploy")).toBe(true)
+    expect(specific.isAllowed("envs::dev", "deploy")).toBe(false)
+    expect(specific.isAllowed("envs::qa", "deploy")).toBe(false)
+  })
+
+  it("removes pattern rules", () => {
+    const mutable = new PermissionTree(["envs::{staging,dev};;read"])
+    expect(mutable.removeRule("envs::{staging,dev};;read")).toBe(true)
+    expect(mutable.isAllowed("envs::dev", "read")).toBe(false)
+  })
+
+  it("keeps malformed patterns as literals outside strict mode", () => {
+    const lenient = new PermissionTree(["envs::{staging;;read"])
+    expect(lenient.isAllowed("envs::{staging", "read")).toBe(true)
+    expect(lenient.isAllowed("envs::staging", "read")).toBe(false)
+  })
+})
+
+describe("Pattern parsing", () => {
+  it("classifies glob and regex segments", () => {
+    expect(parsePermission("reports::reports-2024-*;;read").segments[1]).toEqual({ value: "reports-2024-*", kind: "pattern" })
+    expect(parsePermission("api::/v\\d+/;;read").segments[1].kind).toBe("pattern")
+  })
+
+  it("rejects malformed patterns", () => {
+    expect(() => parsePermission("envs::{staging,dev;;read")).toThrow("unterminated '{'")
+    expect(() => parsePermission("envs::{a,{b}};;read")).toThrow("nested '{'")
+    expect(() => parsePermission("api::/v(/;;read")).toThrow("invalid regular expression")
+  })
+})
@@ -239,6 +239,20 @@ describe("Performance Tests", () => {
       console.log(`⚡ Very large tree: ${queries.length} checks in ${totalTime.toFixed(2)}ms (avg: ${avgTime.toFixed(3)}ms per check)`)
       expect(avgTime).toBeLessThan(10) // Should be under 10ms per check
     })
+
+    it("should check batches of paths with shared traversal", () => {
+      const paths = generateTestQueries(500).map(query => query.resource)
+      
+      const start = performance.now()
+      const batch = largeTree.isAllowedMany(paths, "read")
+      const end = performance.now()
+      
+      const totalTime = end - start
+      const avgTime = totalTime / paths.length
+      console.log(`📦 Large tree batch: ${paths.length} paths in ${totalTime.toFixed(2)}ms (avg: ${avgTime.toFixed(3)}ms per path)`)
+      expect(batch).toEqual(paths.map(path => largeTree.isAllowed(path, "read")))
+      expect(avgTime).toBeLessThan(5) // Should be under 5ms per path
+    })
   })
 
   describe("Explanation Performance", () => {
@@ -442,6 +456,87 @@ describe("Performance Tests", () => {
     })
   })
 
+  describe("Matching Engine", () => {
+    // Counts calls to the array methods that copy or iterate arrays while `run` executes
+    function countArrayCopies(run: () => void): number {
+      const methods = ["slice", "filter", "map", "concat", "flat", Symbol.iterator] as const
+      const originals = methods.map(method => Array.prototype[method])
+      let calls = 0
+      methods.forEach((method, i) => {
+        const original = originals[i] as (...args: unknown[]) => unknown
+        Object.defineProperty(Array.prototype, method, {
+          value(this: unknown[], ...args: unknown[]) {
+            calls++
+            return original.apply(this, args)
+          },
+          configurable: true,
+          writable: true,
+        })
+      })
+      try {
+        run()
+      } finally {
+        methods.forEach((method, i) => {
+          Object.defineProperty(Array.prototype, method, { value: originals[i], configurable: true, writable: true })
+        })
+      }
+      return calls
+    }
+
+    it("should match without copying arrays", () => {
+      const tree = new PermissionTree(["org::***;;admin", "org::*::projects::*;;read", "!org::eng::projects::secret;;read", "org::**::logs;;read,write"])
+      const queries = ["org::eng::projects::web", "org::eng::projects::secret", "org::a::b::c::logs", "org::eng", "other::x"]
+      queries.forEach(query => tree.isAllowed(query, "read")) // warm the action matcher cache
+
+      let allowed = 0
+      const calls = countArrayCopies(() => {
+        for (let i = 0; i < 1000; i++) {
+          for (let j = 0; j < queries.length; j++) {
+            if (tree.isAllowed(queries[j], "read")) allowed++
+          }
+        }
+      })
+      console.log(`🧮 Array copies during 5000 checks: ${calls}`)
+      expect(calls).toBe(0)
+      expect(allowed).toBe(2000)
+    })
+
+    it("should sustain high throughput with globstars", () => {
+      const queries = generateTestQueries(5000)
+      queries.forEach(query => largeTree.isAllowed(query.resource, query.action))
+
+      const start = performance.now()
+      for (const query of queries) {
+        largeTree.isAllowed(query.resource, query.action)
+      }
+      const totalTime = performance.now() - start
+
+      const throughput = queries.length / (totalTime / 1000)
+      console.log(`🏎️  Matching engine: ${throughput.toFixed(0)} checks/second on the large tree`)
+      expect(throughput).toBeGreaterThan(40000) // Should stay well above the recursive matcher's ~20K checks/sec
+    })
+
+    it("should answer repeated checks quickly when compiled", () => {
+      const compiled = largeTree.compile({ cacheSize: 10000 })
+      const queries = generateTestQueries(5000)
+      for (const query of queries) {
+        expect(compiled.isAllowed(query.resource, query.action)).toBe(largeTree.isAllowed(query.resource, query.action))
+      }
+
+      const start = performance.now()
+      for (let round = 0; round < 4; round++) {
+        for (const query of queries) {
+          compiled.isAllowed(query.resource, query.action)
+        }
+      }
+      const totalTime = performance.now() - start
+
+      const throughput = (queries.length * 4) / (totalTime / 1000)
+      console.log(`🧊 Compiled tree: ${throughput.toFixed(0)} checks/second on the large tree with a warm cache`)
+      expect(throughput).toBeGreaterThan(100000)
+    })
+  })
+
   describe("Stress Tests", () => {
     it("should handle burst of concurrent-like operations", () => {
       const queries = generateTestQueries(5000) // Large burst
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, parsePermission } from "../src"
+
+const rules = [
+  "!sensitive::***;;*",
+  "sensitive::public::faq;;read",
+  "sensitive::*::faq;;*",
+  "docs::*;;read",
+]
+
+describe("deny-overrides (default)", () => {
+  const tree = new PermissionTree(rules)
+
+  it("lets any deny beat any allow", () => {
+    expect(tree.isAllowed("sensitive::public::faq", "read")).toBe(false)
+    expect(tree.isAllowed("docs::a", "read")).toBe(true)
+  })
+
+  it("reports the strategy in explain()", () => {
+    const explanation = tree.explain("sensitive::public::faq", "read")
+    expect(explanation.resolution).toBe("deny-overrides")
+    expect(explanation.reason).toContain("deny rules take precedence")
+  })
+})
+
+describe("allow-overrides", () => {
+  const tree = new PermissionTree(rules, { resolution: "allow-overrides" })
+
+  it("lets any allow beat any deny", () => {
+    expect(tree.isAllowed("sensitive::public::faq", "read")).toBe(true)
+    expect(tree.isAllowed("sensitive::private::faq", "write")).toBe(true)
+  })
+
+  it("still denies without a matching allow", () => {
+    expect(tree.isAllowed("sensitive::public::other", "read")).toBe(false)
+    expect(tree.explain("sensitive::public::other", "read").reason).toContain("Access denied by exclusion rule(s): !sensitive::***;;*")
+  })
+
+  it("explains the override", () => {
+    const explanation = tree.explain("sensitive::public::faq", "read")
+    expect(explanation.allowed).toBe(true)
+    expect(explanation.resolution).toBe("allow-overrides")
+    expect(explanation.reason).toContain("allow rules take precedence")
+    expect(explanation.reason).toContain('Resolved by the "allow-overrides" strategy')
+  })
+})
+
+describe("most-specific-wins", () => {
+  const tree = new PermissionTree(
+    [
+      ...rules,
+      "!sensitive::public::faq;;delete",
+      "projects::*;;*",
+      "!projects::*;;delete",
+      "reports::*;;read",
+      "!reports::*;;read",
+    ],
+    { resolution: "most-specific-wins" },
+  )
+
+  it("lets a narrow allow punch through a broad deny", () => {
+    expect(tree.isAllowed("sensitive::public::faq", "read")).toBe(true)
+    expect(tree.isAllowed("sensitive::private::faq", "write")).toBe(true)
+  })
+
+  it("keeps the broad deny where nothing more specific allows", () => {
+    expect(tree.isAllowed("sensitive::public::other", "read")).toBe(false)
+  })
+
+  it("lets a more specific deny win back", () => {
+    expect(tree.isAllowed("sensitive::public::faq", "delete")).toBe(false)
+  })
+
+  it("ranks a named action above the * action", () => {
+    expect(tree.isAllowed("projects::a", "delete")).toBe(false)
+    expect(tree.isAllowed("projects::a", "write")).toBe(true)
+  })
+
+  it("denies on ties", () => {
+    expect(tree.isAllowed("reports::q1", "read")).toBe(false)
+  })
+
+  it("explains which rule decided", () => {
+    const allowed = tree.explain("sensitive::public::faq", "read")
+    expect(allowed.allowed).toBe(true)
+    expect(allowed.resolution).toBe("most-specific-wins")
+    expect(allowed.reason).toBe(
+      "Access allowed by rule: sensitive::public::faq;;read, which is more specific than exclusion rule(s): !sensitive::***;;*. " +
+        'Resolved by the "most-specific-wins" strategy.',
+    )
+
+    const denied = tree.explain("sensitive::public::faq", "delete")
+    expect(denied.allowed).toBe(false)
+    expect(denied.reason).toContain("Access denied by exclusion rule: !sensitive::public::faq;;delete, which is at least as specific as")
+  })
+})
+
+describe("priority", () => {
+  const tree = new PermissionTree(
+    [
+      "!sensitive::***;;*^10",
+      "sensitive::public::faq;;read^20",
+      "sensitive::public::*;;read^10",
+      "docs::*;;read",
+      "!docs::secret;;read",
+    ],
+    { resolution: "priority" },
+  )
+
+  it("lets the highest priority rule win", () => {
+    expect(tree.isAllowed("sensitive::public::faq", "read")).toBe(true)
+  })
+
+  it("denies on equal priority", () => {
+    expect(tree.isAllowed("sensitive::public::other", "read")).toBe(false)
+  })
+
+  it("uses priority 0 by default", () => {
+    expect(tree.isAllowed("docs::a", "read")).toBe(true)
+    expect(tree.isAllowed("docs::secret", "read")).toBe(false)
+  })
+
+  it("reports matched rules with their priority", () => {
+    const explanation = tree.explain("sensitive::public::faq", "read")
+    expect(explanation.matchedAllowRules).toEqual(["sensitive::public::faq;;read^20", "sensitive::public::*;;read^10"])
+    expect(explanation.matchedDenyRules).toEqual(["!sensitive::***;;*^10"])
+    expect(explanation.reason).toBe(
+      "Access allowed by rule: sensitive::public::faq;;read^20 (priority 20), which outranks exclusion rule(s): !sensitive::***;;*^10. " +
+        'Resolved by the "priority" strategy.',
+    )
+  })
+
+  it("treats rules with different priorities as distinct", () => {
+    const mutable = new PermissionTree(["docs::*;;read^1", "docs::*;;read"], { resolution: "priority" })
+    expect(mutable.removeRule("docs::*;;read^1")).toBe(true)
+    expect(mutable.has("docs::*;;read")).toBe(true)
+    expect(mutable.has("docs::*;;read^1")).toBe(false)
+  })
+
+  it("ignores priorities under other strategies", () => {
+    const denyOverrides = new PermissionTree(["!sensitive::***;;*^1", "sensitive::public::faq;;read^99"])
+    expect(denyOverrides.isAllowed("sensitive::public::faq", "read")).toBe(false)
+  })
+})
+
+describe("Priority parsing", () => {
+  it("parses a priority suffix", () => {
+    expect(parsePermission("docs::*;;read^-5").priority).toBe(-5)
+    expect(parsePermission("docs::*;;read^3??a == 1")).toMatchObject({ action: "read", priority: 3 })
+  })
+
+  it("rejects a malformed priority", () => {
+    expect(() => parsePermission("docs::*;;read^high")).toThrow("priority must be an integer")
+    expect(() => parsePermission("docs::*;;^3")).toThrow("empty action")
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, RoleCycleError, RoleRegistry, UnknownRoleError } from "../src"
+
+describe("RoleRegistry", () => {
+  const roles = new RoleRegistry({
+    admin: { allow: ["organization::***;;*"] },
+    manager: {
+      extends: ["developer", "viewer"],
+      allow: ["organization::department::***;;manage", "organization::department::reports::*;;read"],
+    },
+    developer: {
+      extends: ["viewer"],
+      allow: ["organization::department::projects::*;;write"],
+      deny: ["organization::department::projects::production;;write"],
+    },
+    viewer: { allow: ["organization::department::projects::*;;read"] },
+  })
+
+  it("compiles a role into a permission tree", () => {
+    const tree = roles.resolve(["viewer"])
+    expect(tree).toBeInstanceOf(PermissionTree)
+    expect(tree.isAllowed("organization::department::projects::app", "read")).toBe(true)
+    expect(tree.isAllowed("organization::department::projects::app", "write")).toBe(false)
+  })
+
+  it("includes inherited allow and deny rules", () => {
+    const tree = roles.resolve(["manager"])
+    expect(tree.isAllowed("organization::department::projects::app", "read")).toBe(true)
+    expect(tree.isAllowed("organization::department::projects::app", "write")).toBe(true)
+    expect(tree.isAllowed("organization::department::projects::production", "write")).toBe(false)
+    expect(tree.isAllowed("organization::department::reports::monthly", "read")).toBe(true)
+  })
+
+  it("combines several assigned roles", () => {
+    const tree = roles.resolve(["viewer", "admin"])
+    expect(tree.isAllowed("organization::anything::deep", "delete")).toBe(true)
+  })
+
+  it("expands roles once each, inherited roles first", () => {
+    expect(roles.expand(["manager"])).toEqual(["viewer", "developer", "manager"])
+  })
+
+  it("tags rules with the role that declares them", () => {
+    expect(roles.rulesFor(["developer"])).toEqual([
+      { rule: "organization::department::projects::*;;read", role: "viewer" },
+      { rule: "organization::department::projects::*;;write", role: "developer" },
+      { rule: "!organization::department::projects::production;;write", role: "developer" },
+    ])
+  })
+
+  it("reports the contributing role of each matched rule in explain()", () => {
+    const tree = roles.resolve(["manager"])
+
+    const read = tree.explain("organization::department::projects::app", "read")
+    expect(read.ruleSources).toEqual({ "organization::department::projects::*;;read": ["viewer"] })
+
+    const write = tree.explain("organization::department::projects::production", "write")
+    expect(write.allowed).toBe(false)
+    expect(write.ruleSources).toEqual({
+      "organization::department::projects::*;;write": ["developer"],
+      "!organization::department::projects::production;;write": ["developer"],
+    })
+  })
+
+  it("lists every role that grants the same rule", () => {
+    const registry = new RoleRegistry({
+      reader: { allow: ["docs::*;;read"] },
+      editor: { allow: ["docs::*;;read", "docs::*;;write"] },
+    })
+    const tree = registry.resolve(["reader", "editor"])
+    expect(tree.explain("docs::a", "read").ruleSources).toEqual({ "docs::*;;read": ["reader", "editor"] })
+  })
+
+  it("throws for unknown roles", () => {
+    expect(() => roles.resolve(["ghost"])).toThrow(UnknownRoleError)
+    const registry = new RoleRegistry({ orphan: { extends: ["missing"] } })
+    expect(() => registry.resolve(["orphan"])).toThrow('Unknown role "missing"')
+  })
+
+  it("detects inheritance cycles in the initial definitions", () => {
+    expect(() => new RoleRegistry({
+      a: { extends: ["b"] },
+      b: { extends: ["c"] },
+      c: { extends: ["a"] },
+    })).toThrow(RoleCycleError)
+  })
+
+  it("rejects a definition that introduces a cycle and keeps the previous one", () => {
+    const registry = new RoleRegistry({
+      base: { allow: ["docs::*;;read"] },
+      child: { extends: ["base"] },
+    })
+
+    let error: unknown
+    try {
+      registry.define("base", { extends: ["child"] })
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(RoleCycleError)
+    expect((error as RoleCycleError).cycle).toEqual(["base", "child", "base"])
+    expect(registry.resolve(["child"]).isAllowed("docs::a", "read")).toBe(true)
+  })
+
+  it("rejects a role extending itself", () => {
+    const registry = new RoleRegistry()
+    expect(() => registry.define("self", { extends: ["self"] })).toThrow("self -> self")
+    expect(registry.has("self")).toBe(false)
+  })
+
+  it("allows extending roles that are defined later", () => {
+    const registry = new RoleRegistry()
+    registry.define("child", { extends: ["base"] }).define("base", { allow: ["docs::*;;read"] })
+    expect(registry.resolve(["child"]).isAllowed("docs::a", "read")).toBe(true)
+  })
+
+  it("passes tree options through", () => {
+    const registry = new RoleRegistry({ broken: { allow: ["docs::;;read"] } })
+    expect(() => registry.resolve(["broken"], { strict: true })).toThrow("empty path segment")
+  })
+})
+
+describe("Rule sources on PermissionTree", () => {
+  it("removes only the occurrence added by the given source", () => {
+    const tree = new PermissionTree([])
+    tree.addRule("docs::*;;read", "reader")
+    tree.addRule("docs::*;;read", "editor")
+
+    expect(tree.removeRule("docs::*;;read", "nobody")).toBe(false)
+    expect(tree.removeRule("docs::*;;read", "reader")).toBe(true)
+    expect(tree.explain("docs::a", "read").ruleSources).toEqual({ "docs::*;;read": ["editor"] })
+
+    expect(tree.removeRule("docs::*;;read", "editor")).toBe(true)
+    expect(tree.isAllowed("docs::a", "read")).toBe(false)
+  })
+
+  it("reports no sources for rules added without one", () => {
+    const tree = new PermissionTree(["docs::*;;read"])
+    expect(tree.explain("docs::a", "read").ruleSources).toEqual({})
+  })
+})
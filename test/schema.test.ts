@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest"
+import { defineSchema, PermissionSyntaxError, PermissionTree, SchemaError } from "../src"
+
+describe("Resource Schemas", () => {
+  const schema = defineSchema(
+    { users: { $id: { posts: { $id: {} }, settings: {} } }, projects: { $id: {} }, billing: {} },
+    { users: ["read", "write"], "users::$id::posts": ["read", "publish"], projects: ["read", "deploy"], billing: ["billing:view", "billing:refund"] }
+  )
+
+  it("builds ordinary trees from conforming rules", () => {
+    const tree = schema.tree(["users::*;;read", "users::42::posts::*;;publish", "!projects::legacy;;deploy", "projects::*;;*"])
+    expect(tree).toBeInstanceOf(PermissionTree)
+    expect(tree.isAllowed("users::42::posts::7", "publish")).toBe(true)
+    expect(tree.isAllowed("users::7::posts::1", "publish")).toBe(false)
+    expect(tree.isAllowed("projects::legacy", "deploy")).toBe(false)
+    expect(tree.explain("users::9", "read").allowed).toBe(true)
+  })
+
+  it("types paths, actions and rules", () => {
+    const tree = schema.tree(["users::*;;read", "users::**;;write", "users::*::posts::*;;publish"])
+    expect(tree.isAllowed("users::42::settings", "write")).toBe(true)
+    expect(tree.isAllowed("users::42::posts::7", "publish")).toBe(true)
+    // @ts-expect-error "raed" is not an action of users
+    expect(tree.isAllowed("users::42", "raed")).toBe(false)
+    // @ts-expect-error "publish" is not an action of settings
+    expect(tree.explain("users::42::settings", "publish").allowed).toBe(false)
+    // @ts-expect-error "teams" is not a resource
+    expect(tree.isAllowed("teams::1", "read")).toBe(false)
+    // @ts-expect-error "comments" is not a resource of users::$id
+    expect(tree.isAllowed("users::1::comments", "read")).toBe(false)
+
+    expect(tree.isAllowedMany(["users::1", "users::1::posts::2"], "read")).toEqual([true, false])
+    // @ts-expect-error "write" is not an action of posts
+    expect(tree.isAllowedMany(["users::1", "users::1::posts::2"], "write")).toEqual([true, true])
+    const posts = [{ id: "1" }, { id: "2" }]
+    expect(tree.filterAllowed(posts, post => `users::7::posts::${post.id}` as const, "publish")).toEqual(posts)
+    // @ts-expect-error "deploy" is not an action of posts
+    expect(tree.filterAllowed(posts, post => `users::7::posts::${post.id}` as const, "deploy")).toEqual([])
+
+    tree.addRule("!users::1::posts::*;;publish")
+    expect(tree.has("!users::1::posts::*;;publish")).toBe(true)
+    expect(tree.removeRule("!users::1::posts::*;;publish")).toBe(true)
+    // @ts-expect-error "deploy" is not an action of users
+    tree.addRule("users::*;;deploy")
+    // @ts-expect-error "comments" is not a resource
+    expect(tree.has("comments;;read")).toBe(false)
+    // @ts-expect-error "billing" has no children
+    expect(tree.removeRule("billing::x;;billing:view")).toBe(false)
+    // @ts-expect-error "publish" is not an action of projects
+    expect(() => schema.tree(["projects::*;;publish"])).toThrow(SchemaError)
+  })
+
+  it("rejects unknown resources", () => {
+    expect(() => schema.validate(["user::1;;read"])).toThrow(SchemaError)
+    expect(() => schema.validate(["users::1;;read", "users::1::comments;;read"])).toThrow(
+      'Permission #1 "users::1::comments;;read" does not conform to the schema: segment "comments" names no resource; expected one of posts, settings'
+    )
+    expect(() => schema.validate(["billing::x;;billing:view"])).toThrow('segment "x" names no resource')
+  })
+
+  it("rejects actions a resource does not define", () => {
+    expect(() => schema.validate(["users::1;;raed"])).toThrow('action "raed" is not defined for this resource; expected one of read, write')
+    expect(() => schema.validate(["users::1::settings;;publish"])).toThrow(SchemaError)
+    expect(() => schema.validate(["users::1::posts::2;;publish", "users::1::settings;;write", "users::1;;read,write"])).not.toThrow()
+    expect(() => schema.validate(["users::1;;read,delete"])).toThrow('action "delete"')
+    expect(() => schema.validate(["billing;;billing:*", "billing;;*"])).not.toThrow()
+    expect(() => schema.validate(["billing;;admin:*"])).toThrow(SchemaError)
+  })
+
+  it("follows wildcards, globstars, patterns and templates", () => {
+    expect(() => schema.validate(["users::**;;publish", "**;;deploy", "users::***::posts;;read", "users::${user.id};;write"])).not.toThrow()
+    expect(() => schema.validate(["{users,projects}::*;;read", "proj*::*;;deploy", "*::*;;deploy", "users::/\\d+/::posts;;publish"])).not.toThrow()
+    expect(() => schema.validate(["*::*::*::*::*;;read"])).toThrow('segment "*" names no resource')
+    expect(() => schema.validate(["teams-*;;read"])).toThrow("expected one of users, projects, billing")
+    expect(() => schema.validate(["***;;delete"])).toThrow(SchemaError)
+  })
+
+  it("reports malformed rules and schema mistakes", () => {
+    try {
+      schema.validate(["users::1;;read", "users::;;read"])
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(PermissionSyntaxError)
+      expect((error as PermissionSyntaxError).index).toBe(1)
+    }
+    expect(() => defineSchema({ users: {} }, { teams: ["read"] } as never)).toThrow(TypeError)
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, RoleRegistry, SnapshotError } from "../src"
+
+const rules = [
+  "users::*;;read",
+  "users::${user.id}::***;;write",
+  "!users::admin::**;;*",
+  "envs::{staging,dev}::deploy;;*^5",
+  "posts::*;;write??resource.ownerId == subject.id",
+  "posts::*;;write??resource.ownerId == subject.id",
+  "accounts::*;;billing:*,read",
+  "odd::__proto__::constructor;;read",
+]
+const options = { resolution: "priority" as const, actions: { manage: ["write"], write: ["read"] } }
+
+const queries: [string, string, Record<string, unknown>?][] = [
+  ["users::1", "read"],
+  ["users::1::posts", "write", { user: { id: "1" } }],
+  ["users::admin::x", "read"],
+  ["envs::dev::deploy", "run"],
+  ["posts::9", "write", { subject: { id: "a" }, resource: { ownerId: "a" } }],
+  ["posts::9", "read", { subject: { id: "a" }, resource: { ownerId: "b" } }],
+  ["accounts::1", "billing:refund"],
+  ["odd::__proto__::constructor", "read"],
+]
+
+function expectSameDecisions(a: PermissionTree, b: PermissionTree) {
+  for (const [path, action, context] of queries) {
+    expect(b.isAllowed(path, action, context)).toBe(a.isAllowed(path, action, context))
+    expect(b.explain(path, action, context)).toEqual(a.explain(path, action, context))
+  }
+}
+
+describe("JSON Serialization", () => {
+  const tree = new PermissionTree(rules, options)
+
+  it("round-trips through JSON.stringify", () => {
+    const restored = PermissionTree.fromJSON(JSON.parse(JSON.stringify(tree)))
+    expect(restored.toJSON()).toEqual(tree.toJSON())
+    expectSameDecisions(tree, restored)
+  })
+
+  it("keeps duplicate insertions and options", () => {
+    const restored = PermissionTree.fromJSON(tree.toJSON())
+    expect(restored.removeRule("posts::*;;write??resource.ownerId == subject.id")).toBe(true)
+    expect(restored.has("posts::*;;write??resource.ownerId == subject.id")).toBe(true)
+    expect(restored.isAllowed("users::1", "manage")).toBe(false)
+    expect(restored.explain("users::1", "read").resolution).toBe("priority")
+  })
+
+  it("keeps rule sources", () => {
+    const roles = new RoleRegistry({ viewer: { allow: ["docs::*;;read"] } })
+    const restored = PermissionTree.fromJSON(roles.resolve(["viewer"]).toJSON())
+    expect(restored.explain("docs::a", "read").ruleSources).toEqual({ "docs::*;;read": ["viewer"] })
+  })
+
+  it("rejects unsupported versions", () => {
+    expect(() => PermissionTree.fromJSON({ ...tree.toJSON(), version: 99 })).toThrow(SnapshotError)
+  })
+})
+
+describe("Binary Snapshots", () => {
+  const tree = new PermissionTree(rules, options)
+
+  it("round-trips", () => {
+    const snapshot = tree.toSnapshot()
+    const restored = PermissionTree.fromSnapshot(snapshot)
+    expect(restored.toJSON()).toEqual(tree.toJSON())
+    expect(restored.toSnapshot()).toEqual(snapshot)
+    expectSameDecisions(tree, restored)
+  })
+
+  it("starts with a magic number and version", () => {
+    expect([...tree.toSnapshot().subarray(0, 5)]).toEqual([0x53, 0x41, 0x43, 0x54, 1])
+  })
+
+  it("rejects foreign, unsupported and truncated input", () => {
+    const snapshot = tree.toSnapshot()
+    expect(() => PermissionTree.fromSnapshot(new TextEncoder().encode("{}"))).toThrow("missing header")
+    const future = snapshot.slice()
+    future[4] = 2
+    expect(() => PermissionTree.fromSnapshot(future)).toThrow("unsupported version 2")
+    expect(() => PermissionTree.fromSnapshot(snapshot.subarray(0, snapshot.length - 1))).toThrow(SnapshotError)
+  })
+
+  it("round-trips a large tree compactly", () => {
+    const actions = ["read", "write", "delete", "admin"]
+    const large: string[] = []
+    for (let i = 0; i < 20000; i++) {
+      const prefix = i % 10 === 0 ? "!" : ""
+      large.push(`${prefix}org-${i % 50}::dept-${i % 7}::project-${i}::*;;${actions[i % actions.length]}`)
+    }
+    const original = new PermissionTree(large)
+    const snapshot = original.toSnapshot()
+    expect(snapshot.length).toBeLessThan(JSON.stringify(original).length / 2)
+
+    const restored = PermissionTree.fromSnapshot(snapshot)
+    expect(restored.toJSON()).toEqual(original.toJSON())
+    for (let i = 0; i < 20000; i += 997) {
+      const path = `org-${i % 50}::dept-${i % 7}::project-${i}::file`
+      expect(restored.isAllowed(path, actions[i % actions.length])).toBe(original.isAllowed(path, actions[i % actions.length]))
+    }
+  })
+})
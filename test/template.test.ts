@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest"
+import { PermissionTree, parsePermission, explainPermission } from "../src"
+
+describe("Template Variables", () => {
+  const tree = new PermissionTree([
+    "users::${user.id}::posts::*;;read",
+    "orgs::${org.id}::***;;admin",
+    "teams::team-${team.slug}::docs;;write",
+    "!users::${user.id}::posts::draft-${user.id};;read",
+  ])
+
+  const context = { user: { id: "123" }, org: { id: 42 }, team: { slug: "core" } }
+
+  it("binds variables from the context at check time", () => {
+    expect(tree.isAllowed("users::123::posts::456", "read", context)).toBe(true)
+    expect(tree.isAllowed("orgs::42::billing::invoices", "admin", context)).toBe(true)
+  })
+
+  it("does not match other subjects' resources", () => {
+    expect(tree.isAllowed("users::999::posts::456", "read", context)).toBe(false)
+    expect(tree.isAllowed("orgs::7::billing", "admin", context)).toBe(false)
+  })
+
+  it("binds placeholders embedded in a segment", () => {
+    expect(tree.isAllowed("teams::team-core::docs", "write", context)).toBe(true)
+    expect(tree.isAllowed("teams::core::docs", "write", context)).toBe(false)
+  })
+
+  it("applies templated deny rules", () => {
+    expect(tree.isAllowed("users::123::posts::draft-123", "read", context)).toBe(false)
+    expect(tree.isAllowed("users::123::posts::draft-456", "read", context)).toBe(true)
+  })
+
+  it("treats missing variables as a non-match, never as a wildcard", () => {
+    expect(tree.isAllowed("users::123::posts::456", "read")).toBe(false)
+    expect(tree.isAllowed("users::123::posts::456", "read", { user: {} })).toBe(false)
+    expect(tree.isAllowed("users::123::posts::456", "read", { user: { id: { nested: true } } })).toBe(false)
+  })
+
+  it("does not match a request path that contains the unbound template", () => {
+    expect(tree.isAllowed("users::${user.id}::posts::456", "read")).toBe(false)
+  })
+
+  it("keeps a bound value of * literal", () => {
+    expect(tree.isAllowed("users::abc::posts::1", "read", { user: { id: "*" } })).toBe(false)
+    expect(tree.isAllowed("users::*::posts::1", "read", { user: { id: "*" } })).toBe(true)
+  })
+
+  it("reports the unbound rule and missing variables in explain()", () => {
+    const allowed = tree.explain("users::123::posts::456", "read", context)
+    expect(allowed.allowed).toBe(true)
+    expect(allowed.matchedAllowRules).toEqual(["users::${user.id}::posts::*;;read"])
+    expect(allowed.missingVariables).toEqual([])
+
+    const missing = explainPermission(tree, "users::123::posts::456", "read", { org: { id: 1 } })
+    expect(missing.allowed).toBe(false)
+    expect(missing.missingVariables).toEqual(["user.id"])
+    expect(missing.reason).toContain("Template variable(s) missing from the context: user.id")
+  })
+
+  it("only reports variables of rules reached by the path", () => {
+    expect(tree.explain("projects::1", "read").missingVariables).toEqual([])
+  })
+
+  it("stores templates once and removes them like any other rule", () => {
+    const mutable = new PermissionTree(["users::${user.id};;read"])
+    expect(mutable.has("users::${user.id};;read")).toBe(true)
+    expect(mutable.removeRule("users::${user.id};;read")).toBe(true)
+    expect(mutable.isAllowed("users::1", "read", { user: { id: 1 } })).toBe(false)
+  })
+})
+
+describe("Template parsing", () => {
+  it("parses template segments and their variables", () => {
+    expect(parsePermission("orgs::org-${org.id}::***;;admin").segments[1]).toEqual({
+      value: "org-${org.id}",
+      kind: "template",
+      variables: ["org.id"],
+    })
+  })
+
+  it("rejects unterminated placeholders", () => {
+    expect(() => parsePermission("users::${user.id;;read")).toThrow("unterminated '${'")
+  })
+
+  it("rejects invalid variable names", () => {
+    expect(() => parsePermission("users::${};;read")).toThrow('invalid template variable ""')
+    expect(() => parsePermission("users::${user..id};;read")).toThrow("invalid template variable")
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { PermissionTree, explainPermission } from "../src"
+import { PermissionTree, PermissionSyntaxError, explainPermission, normalize } from "../src"
 
 describe("Basic Permission Tree Operations", () => {
   const tree = new PermissionTree([
@@ -196,3 +196,298 @@ describe("explainPermission helper function", () => {
     expect(explanation.reason).toContain("Access denied by exclusion rule(s): !users::blocked;;*")
   })
 })
+
+describe("Incremental Rule Mutation", () => {
+  it("adds rules to an existing tree", () => {
+    const tree = new PermissionTree([])
+    expect(tree.isAllowed("users::123", "read")).toBe(false)
+
+    tree.addRule("users::*;;read")
+    expect(tree.isAllowed("users::123", "read")).toBe(true)
+
+    tree.addRule("!users::123;;read")
+    expect(tree.isAllowed("users::123", "read")).toBe(false)
+    expect(tree.isAllowed("users::456", "read")).toBe(true)
+  })
+
+  it("removes allow and deny rules", () => {
+    const tree = new PermissionTree(["users::*;;read", "!users::123;;read"])
+
+    expect(tree.removeRule("!users::123;;read")).toBe(true)
+    expect(tree.isAllowed("users::123", "read")).toBe(true)
+
+    expect(tree.removeRule("users::*;;read")).toBe(true)
+    expect(tree.isAllowed("users::123", "read")).toBe(false)
+  })
+
+  it("returns false when removing a rule that is not present", () => {
+    const tree = new PermissionTree(["users::*;;read"])
+
+    expect(tree.removeRule("users::*;;write")).toBe(false)
+    expect(tree.removeRule("users::123;;read")).toBe(false)
+    expect(tree.removeRule("!users::*;;read")).toBe(false)
+    expect(tree.isAllowed("users::123", "read")).toBe(true)
+  })
+
+  it("keeps a rule that was granted twice until both copies are removed", () => {
+    const tree = new PermissionTree(["projects::***;;write", "projects::***;;write"])
+
+    expect(tree.removeRule("projects::***;;write")).toBe(true)
+    expect(tree.isAllowed("projects::foo", "write")).toBe(true)
+    expect(tree.has("projects::***;;write")).toBe(true)
+
+    expect(tree.removeRule("projects::***;;write")).toBe(true)
+    expect(tree.isAllowed("projects::foo", "write")).toBe(false)
+    expect(tree.has("projects::***;;write")).toBe(false)
+  })
+
+  it("does not affect sibling rules sharing a prefix", () => {
+    const tree = new PermissionTree(["users::123::posts;;read", "users::123;;read"])
+
+    tree.removeRule("users::123::posts;;read")
+    expect(tree.isAllowed("users::123", "read")).toBe(true)
+    expect(tree.isAllowed("users::123::posts", "read")).toBe(false)
+  })
+
+  it("prunes empty branches so re-adding works from scratch", () => {
+    const tree = new PermissionTree(["a::b::c;;read"])
+
+    tree.removeRule("a::b::c;;read")
+    expect(tree.has("a::b::c;;read")).toBe(false)
+    expect(tree.explain("a::b::c", "read").matchedAllowRules).toHaveLength(0)
+
+    tree.addRule("a::b::c;;write")
+    expect(tree.isAllowed("a::b::c", "write")).toBe(true)
+    expect(tree.isAllowed("a::b::c", "read")).toBe(false)
+  })
+
+  it("treats a rule without an action as the * action", () => {
+    const tree = new PermissionTree(["users::123"])
+
+    expect(tree.has("users::123;;*")).toBe(true)
+    expect(tree.removeRule("users::123;;*")).toBe(true)
+    expect(tree.isAllowed("users::123", "read")).toBe(false)
+  })
+
+  it("replaces all rules", () => {
+    const tree = new PermissionTree(["users::*;;read", "!users::123;;read"])
+
+    tree.replaceRules(["projects::*;;write"])
+    expect(tree.isAllowed("users::456", "read")).toBe(false)
+    expect(tree.isAllowed("projects::foo", "write")).toBe(true)
+    expect(tree.has("!users::123;;read")).toBe(false)
+  })
+
+  it("checks exact rule presence without wildcard matching", () => {
+    const tree = new PermissionTree(["users::*;;read", "!users::123;;write"])
+
+    expect(tree.has("users::*;;read")).toBe(true)
+    expect(tree.has("users::123;;read")).toBe(false)
+    expect(tree.has("!users::123;;write")).toBe(true)
+    expect(tree.has("users::123;;write")).toBe(false)
+  })
+})
+
+describe("Multi-segment Wildcards Anywhere in the Path", () => {
+  const tree = new PermissionTree([
+    "orgs::**::secrets;;read",
+    "orgs::***::keys;;read",
+    "files::**;;read",
+    "a::**::b::**::c;;write",
+    "!orgs::**::archive::**::secrets;;read",
+  ])
+
+  it("matches ** across zero segments", () => {
+    expect(tree.isAllowed("orgs::secrets", "read")).toBe(true)
+    expect(tree.isAllowed("files", "read")).toBe(true)
+  })
+
+  it("matches ** across one or more segments", () => {
+    expect(tree.isAllowed("orgs::acme::secrets", "read")).toBe(true)
+    expect(tree.isAllowed("orgs::acme::eu::team::secrets", "read")).toBe(true)
+    expect(tree.isAllowed("files::a::b::c", "read")).toBe(true)
+  })
+
+  it("requires the segments after ** to match", () => {
+    expect(tree.isAllowed("orgs::acme::secrets::more", "read")).toBe(false)
+    expect(tree.isAllowed("orgs::acme::public", "read")).toBe(false)
+  })
+
+  it("matches *** in the middle across one or more segments only", () => {
+    expect(tree.isAllowed("orgs::acme::keys", "read")).toBe(true)
+    expect(tree.isAllowed("orgs::acme::eu::keys", "read")).toBe(true)
+    expect(tree.isAllowed("orgs::keys", "read")).toBe(false)
+  })
+
+  it("backtracks across several ** segments", () => {
+    expect(tree.isAllowed("a::b::c", "write")).toBe(true)
+    expect(tree.isAllowed("a::x::b::y::b::z::c", "write")).toBe(true)
+    expect(tree.isAllowed("a::b::x", "write")).toBe(false)
+  })
+
+  it("applies ** in deny rules", () => {
+    expect(tree.isAllowed("orgs::acme::archive::secrets", "read")).toBe(false)
+    expect(tree.isAllowed("orgs::acme::archive::2020::q1::secrets", "read")).toBe(false)
+    expect(tree.isAllowed("orgs::acme::live::secrets", "read")).toBe(true)
+  })
+
+  it("explains ** matches once per rule", () => {
+    const explanation = tree.explain("a::b::b::c", "write")
+    expect(explanation.allowed).toBe(true)
+    expect(explanation.matchedAllowRules).toEqual(["a::**::b::**::c;;write"])
+
+    const denied = tree.explain("orgs::archive::secrets", "read")
+    expect(denied.matchedAllowRules).toEqual(["orgs::**::secrets;;read"])
+    expect(denied.matchedDenyRules).toEqual(["!orgs::**::archive::**::secrets;;read"])
+  })
+
+  it("keeps *** from matching zero trailing segments", () => {
+    const tail = new PermissionTree(["users::***;;read", "docs::**;;read"])
+    expect(tail.isAllowed("users", "read")).toBe(false)
+    expect(tail.isAllowed("docs", "read")).toBe(true)
+  })
+})
+
+describe("Rule Export", () => {
+  it("lists rules in canonical, sorted and deduplicated form", () => {
+    const tree = new PermissionTree([
+      "users::*;;read",
+      "!users::admin",
+      "users::*;;read",
+      "posts::*;;write??resource.ownerId==subject.id",
+      "users::admin;;*",
+      "reports::***;;read^0",
+      "reports::***;;read^5",
+    ])
+    expect(tree.toRules()).toEqual([
+      "posts::*;;write??resource.ownerId == subject.id",
+      "reports::***;;read",
+      "reports::***;;read^5",
+      "users::*;;read",
+      "users::admin;;*",
+      "!users::admin;;*",
+    ])
+  })
+
+  it("reflects mutations", () => {
+    const tree = new PermissionTree(["users::*;;read"])
+    tree.addRule("!users::1;;read")
+    tree.removeRule("users::*;;read")
+    expect(tree.toRules()).toEqual(["!users::1;;read"])
+  })
+
+  it("builds an equivalent tree", () => {
+    const rules = ["a::**::b;;read", "!a::x::b;;read", "c::${user.id};;write", "d::{e,f};;read,list"]
+    const tree = new PermissionTree(rules)
+    const rebuilt = new PermissionTree(tree.toRules())
+    expect(rebuilt.toRules()).toEqual(tree.toRules())
+    expect(rebuilt.isAllowed("a::y::b", "read")).toBe(true)
+    expect(rebuilt.isAllowed("a::x::b", "read")).toBe(false)
+  })
+
+  it("normalizes rule lists", () => {
+    expect(normalize(["b;;read", "a", "b;;read", "!a"])).toEqual(["a;;*", "!a;;*", "b;;read"])
+    expect(normalize(["a;;write,read", "a;;read,write"])).toEqual(["a;;read,write"])
+    expect(normalize(["!a;;write,read,write"], { strict: true })).toEqual(["!a;;read,write"])
+    expect(() => normalize(["a::"], { strict: true })).toThrow(PermissionSyntaxError)
+  })
+})
+
+describe("Resource Listing", () => {
+  const tree = new PermissionTree(
+    [
+      "projects::*;;read",
+      "projects::webapp;;manage",
+      "!projects::webapp;;delete",
+      "projects::webapp::*;;*",
+      "!projects::webapp::secrets;;*",
+      "projects::webapp::**::logs;;read",
+      "projects::${user.team}::docs;;write",
+      "billing::*;;billing:*",
+      "!billing::*;;billing:refund",
+    ],
+    { actions: { manage: ["write"], write: ["read"] } }
+  )
+
+  it("lists the allowed actions after deny rules", () => {
+    expect(tree.allowedActions("projects::webapp")).toEqual({
+      actions: ["manage", "read", "write"],
+      namespaces: [],
+      denied: ["billing:*", "billing:refund", "delete"],
+      wildcard: false,
+    })
+    expect(tree.allowedActions("projects::webapp::src")).toMatchObject({
+      actions: ["billing:refund", "delete", "manage", "read", "write"],
+      namespaces: ["billing:*"],
+      wildcard: true,
+    })
+    expect(tree.allowedActions("billing::invoices")).toMatchObject({
+      actions: [],
+      namespaces: ["billing:*"],
+      denied: expect.arrayContaining(["billing:refund", "read"]),
+      wildcard: false,
+    })
+  })
+
+  it("lists the children named by rules that allow an action", () => {
+    expect(tree.listAccessibleChildren("projects", "read")).toEqual({ children: ["webapp"], denied: [], wildcard: true })
+    expect(tree.listAccessibleChildren("projects::webapp", "read")).toEqual({
+      children: ["logs"],
+      denied: ["secrets"],
+      wildcard: true,
+    })
+    expect(tree.listAccessibleChildren("projects::webapp::src", "read")).toEqual({ children: ["logs"], denied: [], wildcard: false })
+    expect(tree.listAccessibleChildren("", "read")).toEqual({ children: [], denied: ["billing", "projects"], wildcard: false })
+  })
+
+  it("binds templates against the context", () => {
+    expect(tree.listAccessibleChildren("projects", "write", { user: { team: "core" } })).toEqual({
+      children: ["webapp"],
+      denied: ["core"],
+      wildcard: false,
+    })
+    expect(tree.listAccessibleChildren("projects::core", "write", { user: { team: "core" } }).children).toEqual(["docs"])
+  })
+})
+
+describe("Batch Checks", () => {
+  const rules = [
+    "posts::*;;read",
+    "!posts::draft-*;;read",
+    "posts::${user.id}::**;;read",
+    "posts::*::comments::***;;read",
+    "!posts::*::comments::hidden;;read",
+    "posts::{a,b}::meta;;read",
+    "admin;;*",
+  ]
+  const paths = [
+    "posts::1",
+    "posts::draft-1",
+    "posts::7",
+    "posts::7::x::y",
+    "posts::8::x",
+    "posts::8::comments::1",
+    "posts::8::comments::hidden",
+    "posts::a::meta",
+    "posts::c::meta",
+    "posts",
+    "admin",
+    "other",
+  ]
+  const context = { user: { id: "7" } }
+
+  it("decides every path like isAllowed under each strategy", () => {
+    for (const resolution of ["deny-overrides", "allow-overrides", "most-specific-wins", "priority"] as const) {
+      const tree = new PermissionTree(rules, { resolution })
+      expect(tree.isAllowedMany(paths, "read", context)).toEqual(paths.map(path => tree.isAllowed(path, "read", context)))
+      expect(tree.isAllowedMany(paths, "write", context)).toEqual(paths.map(path => tree.isAllowed(path, "write", context)))
+    }
+  })
+
+  it("filters items by their resource path", () => {
+    const tree = new PermissionTree(rules)
+    const posts = [{ id: "1" }, { id: "draft-2" }, { id: "3" }]
+    expect(tree.filterAllowed(posts, post => `posts::${post.id}`, "read")).toEqual([{ id: "1" }, { id: "3" }])
+    expect(tree.isAllowedMany([], "read")).toEqual([])
+  })
+})
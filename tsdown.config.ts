@@ -3,7 +3,7 @@ import { defineConfig } from 'tsdown'
 export default defineConfig([
   // ESM build
   {
-    entry: ['src/index.ts'],
+    entry: ['src/index.ts', 'src/guard.ts'],
     format: 'esm',
     dts: true,
     clean: true,
@@ -14,7 +14,7 @@ export default defineConfig([
   },
   // CJS build  
   {
-    entry: ['src/index.ts'],
+    entry: ['src/index.ts', 'src/guard.ts'],
     format: 'cjs',
     dts: true,
     clean: false, // Don't clean for second build